@@ -0,0 +1,51 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { FaHourglassHalf, FaTimes } from 'react-icons/fa';
+import { formatTimeRemaining, getSecondsRemaining } from '@/lib/tokenExpiry';
+import { useSession } from './SessionProvider';
+
+const DISMISSED_KEY = 'expiry-warning-dismissed';
+
+// Shown once the user's token passes a warning threshold. Dismissing hides it
+// until the next threshold, so a 7 day warning doesn't also hide the 1 hour one.
+export function ExpiryBanner() {
+  const { session, expiryWarning } = useSession();
+  const pathname = usePathname();
+  const [dismissed, setDismissed] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDismissed(localStorage.getItem(DISMISSED_KEY));
+  }, []);
+
+  if (!session?.tokenExpiry || expiryWarning === null || pathname === '/renew' || pathname.startsWith('/admin')) {
+    return null;
+  }
+
+  const warningKey = `${session.tokenExpiry}:${expiryWarning}`;
+  if (dismissed === warningKey) return null;
+
+  const handleDismiss = () => {
+    localStorage.setItem(DISMISSED_KEY, warningKey);
+    setDismissed(warningKey);
+  };
+
+  const seconds = getSecondsRemaining(session.tokenExpiry) || 0;
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-50 bg-yellow-500/90 text-black px-4 py-2 flex items-center justify-center gap-3 text-sm">
+      <FaHourglassHalf />
+      <span>
+        Your access expires in {formatTimeRemaining(seconds)}.{' '}
+        <Link href="/renew" className="font-semibold underline">
+          Renew now
+        </Link>
+      </span>
+      <button onClick={handleDismiss} className="ml-2 hover:text-gray-700" title="Dismiss">
+        <FaTimes />
+      </button>
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
-import { checkSession } from '@/utils/auth';
+import { checkSession, sendHeartbeat, signOut } from '@/utils/auth';
+import { ApiError } from '@/utils/api';
+import type { UserSession } from '@/types';
+import { SESSION_EXPIRY_MESSAGES, isSessionExpiryReason } from '@/lib/sessionLifetime';
+import { getDaysRemaining, getExpiryWarningThreshold } from '@/lib/tokenExpiry';
 import { toast } from 'react-hot-toast';
 import { createClient } from '@supabase/supabase-js';
 
@@ -17,75 +21,88 @@ const SessionContext = createContext<{
   isAdmin: boolean;
   username: string | null;
   token: string | null;
+  session: UserSession | null;
+  // Whole days until the access token expires, null when unknown
+  daysRemaining: number | null;
+  // The warning threshold (in seconds) the token has passed, if any
+  expiryWarning: number | null;
+  refreshSession: () => Promise<void>;
 }>({
   isLoading: true,
   isAuthenticated: false,
   isAdmin: false,
   username: null,
   token: null,
+  session: null,
+  daysRemaining: null,
+  expiryWarning: null,
+  refreshSession: async () => {},
 });
 
 export const useSession = () => useContext(SessionContext);
 
+// Routes are guarded before render by middleware.ts; this only handles
+// sessions that end while a protected page is open. Keep in sync with the
+// middleware matcher (the admin panel has its own admin session).
+const isProtectedPath = (path: string) => path.startsWith('/dashboard');
+
+// Used until the first heartbeat response tells us the server's cadence
+const DEFAULT_HEARTBEAT_MS = 60 * 1000;
+
+// Spreads heartbeats out so tabs opened together don't hit the server in step
+const withJitter = (ms: number) => Math.round(ms * (0.8 + Math.random() * 0.4));
+
+// How often the expiry countdown is re-evaluated
+const EXPIRY_TICK_MS = 60 * 1000;
+
 export function SessionProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isAdmin, setIsAdmin] = useState(false);
   const [username, setUsername] = useState<string | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [session, setSession] = useState<UserSession | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Realtime handlers are registered once per user, so they read the latest
+  // session through a ref rather than a stale closure.
+  const sessionRef = useRef<UserSession | null>(null);
   const router = useRouter();
   const pathname = usePathname();
+  // Those handlers and the heartbeat outlive navigations, so the current
+  // path is read through a ref as well.
+  const pathnameRef = useRef(pathname);
+  pathnameRef.current = pathname;
+
+  const clearSessionState = () => {
+    sessionRef.current = null;
+    setSession(null);
+    setIsAuthenticated(false);
+    setIsAdmin(false);
+    setUsername(null);
+    setToken(null);
+  };
 
-  // Function to handle database changes
-  const handleDatabaseChanges = async (payload: any) => {
-    console.log('Real-time change detected:', payload);
-    const session = JSON.parse(localStorage.getItem('session') || '{}');
+  // Ends the session server-side as well, which also clears the cookie
+  const endCurrentSession = () => {
+    clearSessionState();
+    signOut();
+  };
+
+  // Realtime is the primary way revocations reach an open tab. The database
+  // broadcasts on a topic per session (see the broadcast_* triggers); the
+  // messages carry no row data, only what happened.
+  const handleUserChanges = async (broadcast: any) => {
+    console.log('User change broadcast:', broadcast.event);
+    const session = sessionRef.current;
 
     if (!session || !session.username) {
       return;
     }
 
-    // Handle user deletion
-    if (payload.eventType === 'DELETE') {
-      if (payload.old_record && payload.old_record.username === session.username) {
-        console.log('User deleted, showing notification');
-        localStorage.removeItem('session');
-        
-        setIsAuthenticated(false);
-        setIsAdmin(false);
-        setUsername(null);
-        setToken(null);
-
-        toast.remove();
-        toast.error('Your access has been revoked by admin', {
-          duration: 5000,
-          position: 'top-center',
-          style: {
-            background: '#ff4b4b',
-            color: '#fff',
-            fontSize: '16px',
-            padding: '16px',
-            maxWidth: '500px',
-            textAlign: 'center'
-          },
-        });
-
-        router.replace('/');
-        return;
-      }
-    }
-
     // Handle token removal or modification
-    if (payload.eventType === 'UPDATE' && 
-        payload.old_record.username === session.username && 
-        (!payload.new_record.token || payload.new_record.token !== payload.old_record.token)) {
+    if (broadcast.event === 'token_changed') {
       console.log('Token modified, showing notification');
-      localStorage.removeItem('session');
-      
-      setIsAuthenticated(false);
-      setIsAdmin(false);
-      setUsername(null);
-      setToken(null);
+      endCurrentSession();
 
       toast.remove();
       toast.error('Your access token has been modified by admin', {
@@ -106,72 +123,23 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
     }
 
     // For other changes affecting current user
-    if (payload.new_record && payload.new_record.username === session.username) {
-      validateSession();
-    }
+    validateSession();
   };
 
-  const handleSessionChanges = async (payload: any) => {
-    const session = JSON.parse(localStorage.getItem('session') || '{}');
+  const handleSessionEnded = async (broadcast: any) => {
+    const session = sessionRef.current;
     if (!session || !session.sessionId) return;
 
-    console.log('Session change detected:', {
-      eventType: payload.eventType,
-      currentSessionId: session.sessionId,
-      payloadSessionId: payload.new_record?.session_id,
-      userId: session.userId
-    });
+    const endReason = broadcast.payload?.end_reason;
+    console.log('Current session was deactivated:', endReason);
 
-    // If any session was created or updated for the same user
-    if ((payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') && 
-        payload.new_record.user_id === session.userId) {
-      
-      // If this is not our session
-      if (payload.new_record.session_id !== session.sessionId) {
-        console.log('Another session detected, checking if it is newer');
-        
-        // If the other session is newer and active, invalidate current session
-        if (payload.new_record.is_active && 
-            new Date(payload.new_record.created_at) > new Date(session.created_at)) {
-          console.log('Newer active session found, invalidating current session');
-          
-          localStorage.removeItem('session');
-          setIsAuthenticated(false);
-          setIsAdmin(false);
-          setUsername(null);
-          setToken(null);
-
-          toast.error('Your session has ended because you signed in from another browser', {
-            duration: 5000,
-            position: 'top-center',
-            style: {
-              background: '#ff4b4b',
-              color: '#fff',
-              fontSize: '16px',
-              padding: '16px',
-              maxWidth: '500px',
-              textAlign: 'center'
-            },
-          });
-
-          router.replace('/signin');
-        }
-      }
-    }
-
-    // If our session was deactivated
-    if (payload.eventType === 'UPDATE' && 
-        payload.old_record.session_id === session.sessionId && 
-        !payload.new_record.is_active) {
-      console.log('Current session was deactivated');
-      
-      localStorage.removeItem('session');
-      setIsAuthenticated(false);
-      setIsAdmin(false);
-      setUsername(null);
-      setToken(null);
+    // Handle user deletion
+    if (endReason === 'user_deleted') {
+      console.log('User deleted, showing notification');
+      endCurrentSession();
 
-      toast.error('Your session was deactivated', {
+      toast.remove();
+      toast.error('Your access has been revoked by admin', {
         duration: 5000,
         position: 'top-center',
         style: {
@@ -184,6 +152,61 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
         },
       });
 
+      router.replace('/');
+      return;
+    }
+
+    // Signing in again from this browser replaced the session, and the
+    // cookie already points at the new one
+    if (endReason === 'replaced') {
+      validateSession();
+      return;
+    }
+
+    endCurrentSession();
+
+    const message = isSessionExpiryReason(endReason)
+      ? SESSION_EXPIRY_MESSAGES[endReason]
+      : endReason === 'transferred'
+      ? 'Your session has ended because you signed in from another browser'
+      : endReason === 'password_reset'
+      ? 'Your password was reset. Please sign in with your new password.'
+      : endReason === 'password_changed'
+      ? 'Your password was changed on another device. Please sign in again.'
+      : endReason === 'token_expired'
+      ? 'Your access token has expired. Please contact admin for renewal.'
+      : endReason === 'admin_kick'
+      ? 'Your session was ended by admin'
+      : endReason === 'fingerprint_mismatch'
+      ? 'Your session has ended because this browser no longer matches the device you signed in on'
+      : 'Your session was deactivated';
+
+    toast.error(message, {
+      duration: 5000,
+      position: 'top-center',
+      style: {
+        background: '#ff4b4b',
+        color: '#fff',
+        fontSize: '16px',
+        padding: '16px',
+        maxWidth: '500px',
+        textAlign: 'center'
+      },
+    });
+
+    router.replace('/signin');
+  };
+
+  // The server refused the session (expired, revoked, timed out)
+  const handleSessionRejected = (message?: string) => {
+    clearSessionState();
+
+    toast.error(message || 'Session validation failed', {
+      duration: 5000,
+      position: 'top-center',
+    });
+
+    if (isProtectedPath(pathnameRef.current)) {
       router.replace('/signin');
     }
   };
@@ -199,135 +222,151 @@ export function SessionProvider({ children }: { children: React.ReactNode }) {
           token: '[REDACTED]'
         });
         
+        sessionRef.current = sessionData;
+        setSession(sessionData);
         setIsAuthenticated(true);
-        setIsAdmin(sessionData.isAdmin);
+        setIsAdmin(!!sessionData.isAdmin);
         setUsername(sessionData.username);
         setToken(sessionData.token || null);
-
-        // Handle admin routing
-        if (sessionData.isAdmin) {
-          if (pathname === '/') {
-            router.push('/admin');
-          }
-        } else {
-          if (pathname.startsWith('/admin')) {
-            router.replace('/');
-          }
-        }
       } else {
         console.log('No valid session found');
-        setIsAuthenticated(false);
-        setIsAdmin(false);
-        setUsername(null);
-        setToken(null);
+        clearSessionState();
 
         // Redirect to signin if trying to access protected routes
-        if (pathname !== '/signin' && pathname !== '/signup') {
+        if (isProtectedPath(pathnameRef.current)) {
           router.replace('/signin');
         }
       }
     } catch (error: any) {
       console.error('Session validation error:', error);
-      setIsAuthenticated(false);
-      setIsAdmin(false);
-      setUsername(null);
-      setToken(null);
-
-      toast.error(error.message || 'Session validation failed', {
-        duration: 5000,
-        position: 'top-center',
-      });
 
-      if (pathname !== '/signin' && pathname !== '/signup') {
-        router.replace('/signin');
+      // Keep the current state through temporary server or network problems
+      if (error instanceof ApiError && error.status === 503) {
+        return;
       }
+
+      handleSessionRejected(error.message);
     } finally {
       setIsLoading(false);
     }
   };
 
   useEffect(() => {
-    // Set up real-time subscription for both users and sessions
-    const session = JSON.parse(localStorage.getItem('session') || '{}');
-    if (!session || !session.userId) return;
+    // Other devices come and go on multi-device plans, so only our own
+    // session's topic matters
+    if (!session?.sessionId) return;
 
-    console.log('Setting up real-time subscriptions for user:', session.userId);
+    console.log('Subscribing to session broadcasts');
 
     const subscription = supabase
-      .channel('db-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'users',
-          filter: `username=eq.${session.username}`
-        },
-        handleDatabaseChanges
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'sessions',
-          filter: `user_id=eq.${session.userId}`
-        },
-        handleSessionChanges
-      )
+      .channel(`session:${session.sessionId}`)
+      .on('broadcast', { event: 'session_ended' }, handleSessionEnded)
+      .on('broadcast', { event: 'token_changed' }, handleUserChanges)
+      .on('broadcast', { event: 'user_changed' }, handleUserChanges)
       .subscribe((status) => {
         console.log('Subscription status:', status);
       });
 
-    // Initial session validation
-    validateSession();
-
     // Cleanup subscription on unmount
     return () => {
       console.log('Cleaning up subscriptions');
       subscription.unsubscribe();
     };
+  }, [session?.sessionId]);
+
+  // Full check on first load and on every navigation
+  useEffect(() => {
+    validateSession();
   }, [pathname]);
 
+  // Heartbeat while signed in. Keeps last_active fresh and catches anything
+  // realtime missed. Hidden tabs back off up to the server's maximum and
+  // check in immediately when they become visible again.
   useEffect(() => {
-    let mounted = true;
-    let validationTimeout: NodeJS.Timeout;
+    if (!session?.sessionId) return;
 
-    // Function to run validation with delay
-    const runValidation = async () => {
-      if (!mounted) return;
-      
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    let interval = DEFAULT_HEARTBEAT_MS;
+    let maxInterval = DEFAULT_HEARTBEAT_MS;
+    let delay = interval;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      timer = setTimeout(beat, withJitter(delay));
+    };
+
+    const beat = async () => {
       try {
-        await validateSession();
+        const result = await sendHeartbeat();
+        if (cancelled) return;
+
+        if (!result.active) {
+          validateSession();
+          return;
+        }
+
+        interval = result.interval * 1000;
+        maxInterval = result.maxInterval * 1000;
+        delay = document.hidden ? Math.min(delay * 2, maxInterval) : interval;
       } catch (error: any) {
-        console.error('Validation error:', error);
-        
-        // Show error message if not on signin page
-        if (pathname !== '/signin') {
-          toast.error(error.message, {
-            duration: 5000,
-            position: 'top-center',
-          });
-          router.replace('/');
+        if (cancelled) return;
+
+        if (error instanceof ApiError && error.status === 401) {
+          handleSessionRejected(error.message);
+          return;
         }
+
+        console.error('Heartbeat error:', error);
+        delay = Math.min(delay * 2, Math.max(maxInterval, interval));
       }
 
-      // Schedule next validation
-      validationTimeout = setTimeout(runValidation, 3000); // Check every 3 seconds
+      schedule();
     };
 
-    // Initial validation
-    runValidation();
+    const handleVisibilityChange = () => {
+      if (document.hidden) return;
+      delay = interval;
+      clearTimeout(timer);
+      beat();
+    };
+
+    schedule();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
 
-    // Cleanup
     return () => {
-      mounted = false;
-      clearTimeout(validationTimeout);
+      cancelled = true;
+      clearTimeout(timer);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, [pathname]);
+  }, [session?.sessionId]);
+
+  // Move the expiry warning along while the page stays open
+  useEffect(() => {
+    if (!session?.tokenExpiry) return;
+
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), EXPIRY_TICK_MS);
+    return () => clearInterval(timer);
+  }, [session?.tokenExpiry]);
+
+  const daysRemaining = getDaysRemaining(session?.tokenExpiry, now);
+  const expiryWarning = getExpiryWarningThreshold(session?.tokenExpiry, now);
 
   return (
-    <SessionContext.Provider value={{ isLoading, isAuthenticated, isAdmin, username, token }}>
+    <SessionContext.Provider
+      value={{
+        isLoading,
+        isAuthenticated,
+        isAdmin,
+        username,
+        token,
+        session,
+        daysRemaining,
+        expiryWarning,
+        refreshSession: validateSession
+      }}
+    >
       {children}
     </SessionContext.Provider>
   );
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { FaSignOutAlt, FaUserSlash } from 'react-icons/fa';
+import { fetchActiveSessions, forceLogout, kickAllSessions } from '@/utils/admin';
+import { supabase } from '@/lib/supabase';
+
+interface ActiveSession {
+  session_id: string;
+  user_id: string;
+  username: string | null;
+  device_fingerprint: string;
+  created_at: string;
+  last_active: string | null;
+}
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Live list of signed-in users. Kicked browsers are signed out by
+// SessionProvider when their session row turns inactive.
+export function ActiveSessions({ canRevoke }: { canRevoke: boolean }) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+
+  const loadSessions = async () => {
+    try {
+      const { sessions } = await fetchActiveSessions<ActiveSession>();
+      setSessions(sessions || []);
+    } catch (error: any) {
+      console.error('Error fetching active sessions:', error);
+      toast.error(error.message || 'Failed to load active sessions');
+    }
+  };
+
+  useEffect(() => {
+    loadSessions();
+
+    // Sent by the database when a session starts or ends. Heartbeats don't
+    // broadcast, so last active times refresh along with the list.
+    const subscription = supabase
+      .channel('admin:sessions')
+      .on('broadcast', { event: 'changed' }, () => loadSessions())
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const handleForceLogout = async (sessionId: string) => {
+    try {
+      await forceLogout(sessionId);
+      toast.success('Session ended');
+    } catch (error: any) {
+      console.error('Error ending session:', error);
+      toast.error(error.message || 'Failed to end session');
+    }
+  };
+
+  const handleKickAll = async (userId: string, username: string | null) => {
+    try {
+      await kickAllSessions(userId);
+      toast.success(`Signed out ${username || 'user'} everywhere`);
+    } catch (error: any) {
+      console.error('Error ending sessions:', error);
+      toast.error(error.message || 'Failed to end sessions');
+    }
+  };
+
+  return (
+    <div className="gaming-card border-2 border-blue-500/70">
+      <h2 className="text-2xl font-bold text-red-400 mb-6">
+        Active Sessions ({sessions.length})
+      </h2>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-red-500/20">
+              <th className="px-4 py-2 text-red-400">User</th>
+              <th className="px-4 py-2 text-red-400">Device ID</th>
+              <th className="px-4 py-2 text-red-400">Signed In</th>
+              <th className="px-4 py-2 text-red-400">Last Active</th>
+              {canRevoke && <th className="px-4 py-2 text-red-400">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {sessions.length === 0 && (
+              <tr>
+                <td colSpan={canRevoke ? 5 : 4} className="px-4 py-4 text-center text-gray-500">
+                  Nobody is signed in
+                </td>
+              </tr>
+            )}
+            {sessions.map((session) => (
+              <tr key={session.session_id} className="border-t border-gray-800">
+                <td className="px-4 py-2 text-gray-300">{session.username || session.user_id}</td>
+                <td className="px-4 py-2 text-gray-400">
+                  <span className="font-mono text-xs break-all">{session.device_fingerprint}</span>
+                </td>
+                <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(session.created_at)}</td>
+                <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(session.last_active)}</td>
+                {canRevoke && (
+                  <td className="px-4 py-2 space-x-2 flex items-center">
+                    <button
+                      onClick={() => handleForceLogout(session.session_id)}
+                      className="text-red-500 hover:text-red-400"
+                      title="Force Logout"
+                    >
+                      <FaSignOutAlt />
+                    </button>
+                    <button
+                      onClick={() => handleKickAll(session.user_id, session.username)}
+                      className="text-red-500 hover:text-red-400"
+                      title="Sign Out User Everywhere"
+                    >
+                      <FaUserSlash />
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
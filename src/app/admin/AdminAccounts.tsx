@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { createAdmin, fetchAdmins, setAdminActive } from '@/utils/admin';
+import { PASSWORD_POLICY_HINT, checkPasswordPolicy } from '@/lib/passwordPolicy';
+import type { AdminAccount, AdminRole } from '@/types';
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  support: 'Support (read-only)'
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+// Owner-only: create admin accounts with a role and disable ones no longer needed
+export function AdminAccounts({ currentAdminId }: { currentAdminId: string }) {
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [form, setForm] = useState<{ username: string; password: string; role: AdminRole }>({
+    username: '',
+    password: '',
+    role: 'support'
+  });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadAdmins = async () => {
+    try {
+      const { admins } = await fetchAdmins();
+      setAdmins(admins || []);
+    } catch (error: any) {
+      console.error('Error fetching admin accounts:', error);
+      toast.error(error.message || 'Failed to load admin accounts');
+    }
+  };
+
+  useEffect(() => {
+    loadAdmins();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const policyError = checkPasswordPolicy(form.password, form.username);
+    if (policyError) {
+      toast.error(policyError);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createAdmin(form.username.trim(), form.password, form.role);
+      toast.success(`Created ${form.username.trim()}`);
+      setForm({ username: '', password: '', role: 'support' });
+      loadAdmins();
+    } catch (error: any) {
+      console.error('Error creating admin account:', error);
+      toast.error(error.message || 'Failed to create admin account');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleActive = async (account: AdminAccount) => {
+    try {
+      await setAdminActive(account.id, !account.is_active);
+      toast.success(`${account.is_active ? 'Disabled' : 'Re-enabled'} ${account.username}`);
+      loadAdmins();
+    } catch (error: any) {
+      console.error('Error updating admin account:', error);
+      toast.error(error.message || 'Failed to update admin account');
+    }
+  };
+
+  return (
+    <div className="gaming-card border-2 border-blue-500/70">
+      <h2 className="text-2xl font-bold text-red-400 mb-6">Admin Accounts</h2>
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 mb-2">
+        <input
+          type="text"
+          value={form.username}
+          onChange={(e) => setForm({ ...form, username: e.target.value })}
+          placeholder="Username"
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+          required
+        />
+        <input
+          type="password"
+          value={form.password}
+          onChange={(e) => setForm({ ...form, password: e.target.value })}
+          placeholder="Password"
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+          autoComplete="new-password"
+          required
+        />
+        <select
+          value={form.role}
+          onChange={(e) => setForm({ ...form, role: e.target.value as AdminRole })}
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        >
+          {(Object.keys(ROLE_LABELS) as AdminRole[]).map(role => (
+            <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? 'Creating...' : 'Create Admin'}
+        </button>
+      </form>
+      <p className="text-xs text-gray-500 mb-4">{PASSWORD_POLICY_HINT}</p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-red-500/20">
+              <th className="px-4 py-2 text-red-400">Username</th>
+              <th className="px-4 py-2 text-red-400">Role</th>
+              <th className="px-4 py-2 text-red-400">Two-Factor</th>
+              <th className="px-4 py-2 text-red-400">Created</th>
+              <th className="px-4 py-2 text-red-400">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {admins.map((account) => (
+              <tr key={account.id} className="border-t border-gray-800">
+                <td className="px-4 py-2 text-gray-300">
+                  {account.username}
+                  {account.id === currentAdminId && <span className="text-gray-500"> (you)</span>}
+                </td>
+                <td className="px-4 py-2 text-gray-400">{ROLE_LABELS[account.role] || account.role}</td>
+                <td className="px-4 py-2 text-gray-400">{account.totp_enabled ? 'Enabled' : 'Off'}</td>
+                <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(account.created_at)}</td>
+                <td className="px-4 py-2">
+                  <span className={account.is_active ? 'text-green-400' : 'text-red-400'}>
+                    {account.is_active ? 'Active' : 'Disabled'}
+                  </span>
+                  {account.id !== currentAdminId && (
+                    <button
+                      onClick={() => handleToggleActive(account)}
+                      className="ml-3 text-xs text-blue-400 hover:text-blue-300 underline"
+                    >
+                      {account.is_active ? 'Disable' : 'Re-enable'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { fetchAuditLog } from '@/utils/admin';
+import type { AuditAction, AuditLogEntry } from '@/types';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'token.generate': 'Generated token',
+  'token.delete': 'Deleted unused token',
+  'token.expire': 'Token expired',
+  'user.delete': 'Deleted user',
+  'user.token_revoke': 'Revoked token',
+  'user.token_renew': 'Renewed token',
+  'user.unlock': 'Unlocked sign-in',
+  'user.allow_transfer': 'Allowed device transfer',
+  'user.reset_code': 'Issued reset code',
+  'device.lock': 'Enabled hardware lock',
+  'device.unlock': 'Removed hardware lock',
+  'device.reset': 'Reset device binding',
+  'device.rebind': 'Re-bound device',
+  'session.force_logout': 'Forced logout',
+  'session.kick_all': 'Signed out everywhere',
+  'admin.create': 'Created admin',
+  'admin.disable': 'Disabled admin',
+  'admin.enable': 'Re-enabled admin'
+};
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+const formatValues = (values: Record<string, unknown> | null) => {
+  if (!values) return '-';
+  return Object.entries(values)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join('\n');
+};
+
+// Read-only view of audit_log. Filters are applied on the server.
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [filters, setFilters] = useState({ action: '', admin: '', target: '' });
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEntries = async () => {
+    setIsLoading(true);
+    try {
+      const { entries } = await fetchAuditLog(filters);
+      setEntries(entries || []);
+    } catch (error: any) {
+      console.error('Error fetching audit log:', error);
+      toast.error(error.message || 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [filters.action]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEntries();
+  };
+
+  return (
+    <div className="gaming-card border-2 border-blue-500/70">
+      <h2 className="text-2xl font-bold text-red-400 mb-6">Audit Log</h2>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 mb-4">
+        <select
+          value={filters.action}
+          onChange={(e) => setFilters({ ...filters, action: e.target.value })}
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        >
+          <option value="">All actions</option>
+          {(Object.keys(ACTION_LABELS) as AuditAction[]).map(action => (
+            <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.admin}
+          onChange={(e) => setFilters({ ...filters, admin: e.target.value })}
+          placeholder="Admin"
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        />
+        <input
+          type="text"
+          value={filters.target}
+          onChange={(e) => setFilters({ ...filters, target: e.target.value })}
+          placeholder="User, token or id"
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        />
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm"
+          disabled={isLoading}
+        >
+          {isLoading ? 'Loading...' : 'Search'}
+        </button>
+      </form>
+
+      <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-red-500/20">
+              <th className="px-4 py-2 text-red-400">When</th>
+              <th className="px-4 py-2 text-red-400">Admin</th>
+              <th className="px-4 py-2 text-red-400">Action</th>
+              <th className="px-4 py-2 text-red-400">Target</th>
+              <th className="px-4 py-2 text-red-400">Before</th>
+              <th className="px-4 py-2 text-red-400">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-4 text-center text-gray-500">
+                  No matching entries
+                </td>
+              </tr>
+            )}
+            {entries.map((entry) => (
+              <tr key={entry.id} className="border-t border-gray-800 align-top">
+                <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(entry.created_at)}</td>
+                <td className="px-4 py-2 text-gray-300">{entry.admin_username}</td>
+                <td className="px-4 py-2 text-gray-300">{ACTION_LABELS[entry.action] || entry.action}</td>
+                <td className="px-4 py-2 text-gray-400">
+                  {entry.target_label || entry.target_id || '-'}
+                  <span className="block text-xs text-gray-500">{entry.target_type}</span>
+                </td>
+                <td className="px-4 py-2 text-gray-500 font-mono text-xs whitespace-pre-wrap break-all">
+                  {formatValues(entry.before)}
+                </td>
+                <td className="px-4 py-2 text-gray-500 font-mono text-xs whitespace-pre-wrap break-all">
+                  {formatValues(entry.after)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
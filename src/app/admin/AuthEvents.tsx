@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { fetchAuthEvents } from '@/utils/admin';
+import type { AuthEvent, AuthEventType } from '@/types';
+
+const EVENT_LABELS: Record<AuthEventType, string> = {
+  signin_success: 'Signed in',
+  signin_failure: 'Sign-in failed',
+  device_transfer: 'Moved to new device',
+  session_replaced: 'Session replaced',
+  fingerprint_mismatch: 'Fingerprint mismatch',
+  session_expired: 'Session expired',
+  token_expired: 'Token expired'
+};
+
+const REASON_LABELS: Record<string, string> = {
+  invalid_credentials: 'Wrong username or password',
+  locked_out: 'Too many failed attempts',
+  active_on_other_device: 'Signed in on another device',
+  device_locked: 'Hardware lock, different device',
+  transfer_limit: 'Transfer limit reached',
+  idle_timeout: 'Inactive too long',
+  max_age: 'Maximum session age',
+  error: 'Server error'
+};
+
+// Good events are green, the ones that lock a user out are red
+const isProblem = (event: AuthEventType) => event !== 'signin_success' && event !== 'device_transfer';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+// Sign-in and session events, for working out why a user can't get in.
+// initialUsername is set when opened from a row in the users table.
+export function AuthEvents({ initialUsername = '' }: { initialUsername?: string }) {
+  const [events, setEvents] = useState<AuthEvent[]>([]);
+  const [filters, setFilters] = useState({ username: initialUsername, event: '' });
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadEvents = async (current = filters) => {
+    setIsLoading(true);
+    try {
+      const { events } = await fetchAuthEvents(current);
+      setEvents(events || []);
+    } catch (error: any) {
+      console.error('Error fetching sign-in events:', error);
+      toast.error(error.message || 'Failed to load sign-in events');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const next = { ...filters, username: initialUsername };
+    setFilters(next);
+    loadEvents(next);
+  }, [initialUsername]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEvents();
+  };
+
+  return (
+    <div className="gaming-card border-2 border-blue-500/70">
+      <h2 className="text-2xl font-bold text-red-400 mb-6">Sign-in Events</h2>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          type="text"
+          value={filters.username}
+          onChange={(e) => setFilters({ ...filters, username: e.target.value })}
+          placeholder="Username"
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        />
+        <select
+          value={filters.event}
+          onChange={(e) => setFilters({ ...filters, event: e.target.value })}
+          className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        >
+          <option value="">All events</option>
+          {(Object.keys(EVENT_LABELS) as AuthEventType[]).map(event => (
+            <option key={event} value={event}>{EVENT_LABELS[event]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm"
+          disabled={isLoading}
+        >
+          {isLoading ? 'Loading...' : 'Search'}
+        </button>
+      </form>
+
+      <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-red-500/20">
+              <th className="px-4 py-2 text-red-400">When</th>
+              <th className="px-4 py-2 text-red-400">User</th>
+              <th className="px-4 py-2 text-red-400">Event</th>
+              <th className="px-4 py-2 text-red-400">Device ID</th>
+              <th className="px-4 py-2 text-red-400">IP / Browser</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-4 text-center text-gray-500">
+                  No matching events
+                </td>
+              </tr>
+            )}
+            {events.map((event) => (
+              <tr key={event.id} className="border-t border-gray-800 align-top">
+                <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(event.created_at)}</td>
+                <td className="px-4 py-2 text-gray-300">{event.username || event.user_id || '-'}</td>
+                <td className="px-4 py-2">
+                  <span className={isProblem(event.event) ? 'text-red-400' : 'text-green-400'}>
+                    {EVENT_LABELS[event.event] || event.event}
+                  </span>
+                  {event.reason && (
+                    <span className="block text-xs text-gray-500">
+                      {REASON_LABELS[event.reason] || event.reason}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-400">
+                  <span className="font-mono text-xs break-all">{event.device_fingerprint || '-'}</span>
+                  {typeof event.details?.session_fingerprint === 'string' && (
+                    <span className="block text-xs text-gray-500 break-all">
+                      signed in as {event.details.session_fingerprint}
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-500 text-xs">
+                  {event.ip_address || '-'}
+                  <span className="block break-all">{event.user_agent}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { fetchExpiringUsers } from '@/utils/admin';
+import { EXPIRING_SOON_DAYS, formatTimeRemaining, getSecondsRemaining } from '@/lib/tokenExpiry';
+import type { ExpiringUser } from '@/types';
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Everyone whose access runs out soon, so they can be contacted about renewal
+export function ExpiringUsers() {
+  const [users, setUsers] = useState<ExpiringUser[]>([]);
+  const [days, setDays] = useState(EXPIRING_SOON_DAYS);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadUsers = async () => {
+    setIsLoading(true);
+    try {
+      const { users } = await fetchExpiringUsers(days);
+      setUsers(users || []);
+    } catch (error: any) {
+      console.error('Error fetching expiring users:', error);
+      toast.error(error.message || 'Failed to load expiring users');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadUsers();
+  };
+
+  return (
+    <div className="gaming-card border-2 border-blue-500/70">
+      <h2 className="text-2xl font-bold text-red-400 mb-6">
+        Expiring Soon ({users.length})
+      </h2>
+
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2 mb-4 text-gray-400">
+        <span>Expiring in the next</span>
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="w-20 bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+        />
+        <span>days</span>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-sm"
+          disabled={isLoading}
+        >
+          {isLoading ? 'Loading...' : 'Search'}
+        </button>
+      </form>
+
+      <div className="overflow-x-auto max-h-[600px] overflow-y-auto">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="border-b border-red-500/20">
+              <th className="px-4 py-2 text-red-400">User</th>
+              <th className="px-4 py-2 text-red-400">Duration</th>
+              <th className="px-4 py-2 text-red-400">Token</th>
+              <th className="px-4 py-2 text-red-400">Expires</th>
+              <th className="px-4 py-2 text-red-400">Time Left</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-4 text-center text-gray-500">
+                  Nobody expires in this period
+                </td>
+              </tr>
+            )}
+            {users.map((user) => (
+              <tr key={user.user_id} className="border-t border-gray-800">
+                <td className="px-4 py-2 text-gray-300">{user.username}</td>
+                <td className="px-4 py-2 text-gray-400">{user.duration}</td>
+                <td className="px-4 py-2 text-gray-400 font-mono text-xs break-all">{user.token}</td>
+                <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(user.expiry_date)}</td>
+                <td className="px-4 py-2 text-yellow-400 whitespace-nowrap">
+                  {formatTimeRemaining(getSecondsRemaining(user.expiry_date) || 0)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { activateTotp, startTotpEnrollment } from '@/utils/admin';
+
+export function TwoFactorSetup({ onComplete }: { onComplete: () => void }) {
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCode: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    startTotpEnrollment()
+      .then(({ secret, qrCode }) => setEnrollment({ secret, qrCode }))
+      .catch((error: any) => toast.error(error.message || 'Failed to start two-factor enrollment'));
+  }, []);
+
+  const handleActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const { recoveryCodes } = await activateTotp(code);
+      setRecoveryCodes(recoveryCodes);
+      toast.success('Two-factor authentication enabled');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to enable two-factor authentication');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="text-gray-400">
+          Save these recovery codes somewhere safe. Each one can be used once to sign in
+          if you lose access to your authenticator app. They will not be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 bg-black/30 p-4 rounded-lg font-mono text-green-400">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <button onClick={onComplete} className="gaming-button w-full">
+          I have saved my recovery codes
+        </button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return <p className="text-gray-400 text-center">Preparing two-factor setup...</p>;
+  }
+
+  return (
+    <form onSubmit={handleActivate} className="space-y-4">
+      <p className="text-gray-400">
+        Scan this QR code with your authenticator app, then enter the 6 digit code it shows.
+      </p>
+      <img
+        src={enrollment.qrCode}
+        alt="Two-factor authentication QR code"
+        className="mx-auto w-48 h-48 bg-white p-2 rounded-lg"
+      />
+      <p className="text-center text-xs text-gray-500 font-mono break-all">
+        {enrollment.secret}
+      </p>
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        className="gaming-input"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="123456"
+        required
+      />
+      <button type="submit" className="gaming-button w-full" disabled={isSubmitting}>
+        Enable Two-Factor Authentication
+      </button>
+    </form>
+  );
+}
@@ -2,10 +2,31 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { FaUserShield, FaLock, FaKey, FaTrash, FaUsers, FaSync } from 'react-icons/fa';
+import { FaUserShield, FaKey, FaTrash, FaSync, FaUnlock, FaExchangeAlt, FaLaptop, FaUndo, FaHistory } from 'react-icons/fa';
 import toast from 'react-hot-toast';
-import { signIn, generateToken } from '@/utils/auth';
+import {
+  adminSignOut,
+  getAdminSession,
+  fetchAdminData,
+  generateToken,
+  deleteUser,
+  deleteUserToken,
+  deleteUnusedToken,
+  renewToken,
+  unlockUser,
+  allowDeviceTransfer,
+  updateDeviceBinding,
+  createPasswordResetCode
+} from '@/utils/admin';
+import { TwoFactorSetup } from './TwoFactorSetup';
+import { ActiveSessions } from './ActiveSessions';
+import { AuditLog } from './AuditLog';
+import { AdminAccounts } from './AdminAccounts';
+import { AuthEvents } from './AuthEvents';
+import { ExpiringUsers } from './ExpiringUsers';
+import { hasPermission } from '@/lib/adminRoles';
 import { supabase } from '@/lib/supabase';
+import type { AdminSession } from '@/types';
 
 interface Token {
   id: string;
@@ -14,7 +35,9 @@ interface Token {
   created_at: string;
   used_by?: string;
   expiry_date: string;
+  expired_at: string | null;
   is_used: boolean;
+  max_devices: number;
 }
 
 interface User {
@@ -22,35 +45,43 @@ interface User {
   username: string;
   token: string;
   created_at: string;
-  expiry_date: string;
   device_fingerprint?: string;
+  failed_attempts: number;
+  locked_until: string | null;
+  transfer_override?: boolean;
+  hardware_lock?: boolean;
+  active_devices: string[];
 }
 
 export default function Admin() {
   const router = useRouter();
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [admin, setAdmin] = useState<AdminSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [users, setUsers] = useState<User[]>([]);
   const [tokens, setTokens] = useState<Token[]>([]);
-  const [loginData, setLoginData] = useState({
-    username: '',
-    password: '',
-  });
+  const [showTwoFactorSetup, setShowTwoFactorSetup] = useState(false);
+  const [newTokenDevices, setNewTokenDevices] = useState(1);
+  const [activeTab, setActiveTab] = useState<'manage' | 'auth' | 'expiring' | 'audit' | 'admins'>('manage');
+  // Username the sign-in events tab opens on
+  const [eventsUsername, setEventsUsername] = useState('');
+
+  const isAuthenticated = !!admin;
+  const can = (permission: Parameters<typeof hasPermission>[1]) => hasPermission(admin?.role, permission);
 
   // Check for existing session on mount
   useEffect(() => {
     const checkSession = async () => {
       try {
-        const adminSession = localStorage.getItem('adminSession');
-        if (adminSession) {
-          setIsAuthenticated(true);
-          await fetchData();
-        } else {
-          setIsAuthenticated(false);
+        const adminSession = await getAdminSession();
+        if (!adminSession || !adminSession.mfaVerified) {
+          router.replace('/admin/signin');
+          return;
         }
+        setAdmin(adminSession);
+        await fetchData();
       } catch (error) {
         console.error('Session check error:', error);
-        setIsAuthenticated(false);
+        router.replace('/admin/signin');
       } finally {
         setIsLoading(false);
       }
@@ -63,38 +94,22 @@ export default function Admin() {
   useEffect(() => {
     if (!isAuthenticated) return;
 
-    // Subscribe to users table changes
+    // Users and tokens aren't readable over realtime, so the database only
+    // broadcasts that something changed and the data is reloaded
     const usersSubscription = supabase
-      .channel('users-channel')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'users'
-        },
-        (payload) => {
-          console.log('Users change received:', payload);
-          fetchData();
-        }
-      )
+      .channel('admin:users')
+      .on('broadcast', { event: 'changed' }, () => {
+        console.log('Users change received');
+        fetchData();
+      })
       .subscribe();
 
-    // Subscribe to tokens table changes
     const tokensSubscription = supabase
-      .channel('tokens-channel')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'tokens'
-        },
-        (payload) => {
-          console.log('Tokens change received:', payload);
-          fetchData();
-        }
-      )
+      .channel('admin:tokens')
+      .on('broadcast', { event: 'changed' }, () => {
+        console.log('Tokens change received');
+        fetchData();
+      })
       .subscribe();
 
     // Cleanup subscriptions on unmount
@@ -106,322 +121,131 @@ export default function Admin() {
 
   const fetchData = async () => {
     try {
-      // Fetch users first
-      const { data: usersData, error: usersError } = await supabase
-        .from('users')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (usersError) throw usersError;
-
-      // Fetch tokens with used status
-      const { data: tokensData, error: tokensError } = await supabase
-        .from('tokens')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (tokensError) throw tokensError;
-
-      // Mark tokens as used if they exist in users table
-      const updatedTokens = tokensData.map(token => ({
-        ...token,
-        is_used: usersData.some(user => user.token === token.token),
-        used_by: usersData.find(user => user.token === token.token)?.username
-      }));
-
-      // Update state
+      const { users: usersData, tokens: tokensData } = await fetchAdminData<User, Token>();
       setUsers(usersData || []);
-      setTokens(updatedTokens || []);
-    } catch (error) {
-      console.error('Error fetching data:', error);
-      toast.error('Failed to refresh data');
-    }
-  };
-
-  const fetchUsers = async () => {
-    try {
-      const { data: usersData, error: usersError } = await supabase
-        .from('users')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (usersError) throw usersError;
-
-      setUsers(usersData || []);
-    } catch (error) {
-      console.error('Error fetching users:', error);
-      toast.error('Failed to refresh users');
-    }
-  };
-
-  const fetchTokens = async () => {
-    try {
-      const { data: tokensData, error: tokensError } = await supabase
-        .from('tokens')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (tokensError) throw tokensError;
-
       setTokens(tokensData || []);
-    } catch (error) {
-      console.error('Error fetching tokens:', error);
-      toast.error('Failed to refresh tokens');
-    }
-  };
-
-  const handleLogin = async (e: React.FormEvent) => {
-    e.preventDefault();
-    try {
-      const adminSession = await signIn(loginData.username, loginData.password);
-      if (!adminSession.isLoggedIn) throw new Error('Invalid credentials');
-      
-      localStorage.setItem('adminSession', 'true');
-      setIsAuthenticated(true);
-      await fetchData();
-      toast.success('Welcome, Administrator');
     } catch (error: any) {
-      toast.error(error.message || 'Authentication failed');
+      console.error('Error fetching data:', error);
+      toast.error(error.message || 'Failed to refresh data');
     }
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('adminSession');
-    setIsAuthenticated(false);
+  const handleLogout = async () => {
+    await adminSignOut();
+    setAdmin(null);
     setUsers([]);
     setTokens([]);
     toast.success('Logged out successfully');
+    router.replace('/admin/signin');
   };
 
   const handleGenerateToken = async (duration: string) => {
     try {
-      const token = Math.random().toString(36).substring(2, 15) + 
-                   Math.random().toString(36).substring(2, 15);
-      
-      let expiryDate = new Date();
-      switch (duration) {
-        case '3month':
-          expiryDate.setMonth(expiryDate.getMonth() + 3);
-          break;
-        case '6month':
-          expiryDate.setMonth(expiryDate.getMonth() + 6);
-          break;
-        case '1year':
-          expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-          break;
-      }
-
-      const { error } = await supabase
-        .from('tokens')
-        .insert([
-          {
-            token,
-            duration,
-            expiry_date: expiryDate.toISOString(),
-            is_used: false,
-            created_at: new Date().toISOString()
-          }
-        ]);
-
-      if (error) throw error;
-
+      await generateToken(duration, newTokenDevices);
       toast.success('Token generated successfully');
       fetchData();
     } catch (error: any) {
       console.error('Error generating token:', error);
-      toast.error('Failed to generate token');
+      toast.error(error.message || 'Failed to generate token');
     }
   };
 
   const handleDeleteUser = async (userId: string) => {
     try {
-      // First get the user's token
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('token')
-        .eq('id', userId)
-        .single();
-
-      if (userError) {
-        console.error('Error getting user data:', userError);
-        throw userError;
-      }
-
-      // If user has a token, delete it from tokens table
-      if (userData?.token) {
-        const { error: tokenError } = await supabase
-          .from('tokens')
-          .delete()
-          .eq('token', userData.token);
-
-        if (tokenError) {
-          console.error('Error deleting token:', tokenError);
-          throw tokenError;
-        }
-      }
-
-      // Then delete the user
-      const { error: deleteError } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', userId);
-
-      if (deleteError) throw deleteError;
-
-      // Immediately remove session if user deletes themselves
-      const session = await supabase.auth.getSession();
-      const currentUser = session?.data?.session?.user;
-      if (currentUser && currentUser.id === userId) {
-        await supabase.auth.signOut();
-        router.push('/');
-        return;
-      }
-
+      await deleteUser(userId);
       toast.success('User and associated token deleted successfully');
       fetchData();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error deleting user:', error);
-      toast.error('Failed to delete user');
+      toast.error(error.message || 'Failed to delete user');
     }
   };
 
-  const handleDeleteUserToken = async (userId: string, token: string) => {
+  const handleDeleteUserToken = async (userId: string) => {
     try {
-      console.log('Deleting token:', token, 'for user:', userId);
-
-      // First, find the token in the tokens table
-      const { data: tokenData, error: findError } = await supabase
-        .from('tokens')
-        .select('id')
-        .eq('token', token)
-        .single();
-
-      if (findError) {
-        console.error('Error finding token:', findError);
-        throw findError;
-      }
-
-      console.log('Found token data:', tokenData);
-
-      // Update user's token to empty string
-      const { error: userError } = await supabase
-        .from('users')
-        .update({ token: '' })
-        .eq('id', userId);
-
-      if (userError) {
-        console.error('Error updating user:', userError);
-        throw userError;
-      }
-
-      console.log('Updated user token to empty string');
-
-      // Then delete the token from tokens table
-      const { error: tokenError } = await supabase
-        .from('tokens')
-        .delete()
-        .eq('id', tokenData.id);
-
-      if (tokenError) {
-        console.error('Error deleting token:', tokenError);
-        throw tokenError;
-      }
-
-      console.log('Deleted token successfully');
-
-      // Check if admin is deleting their own token
-      const session = await supabase.auth.getSession();
-      const currentUser = session?.data?.session?.user;
-      if (currentUser && currentUser.id === userId) {
-        console.log('Admin deleted their own token, logging out...');
-        await supabase.auth.signOut();
-        router.push('/');
-        return;
-      }
-
+      await deleteUserToken(userId);
       toast.success('Token deleted successfully');
-      await fetchUsers();
-      await fetchTokens();
+      fetchData();
     } catch (error: any) {
       console.error('Failed to delete token:', error);
-      toast.error('Failed to delete token: ' + (error.message || 'Unknown error'));
+      toast.error(error.message || 'Failed to delete token');
     }
   };
 
   const handleDeleteUnusedToken = async (tokenId: string) => {
     try {
-      const { error } = await supabase
-        .from('tokens')
-        .delete()
-        .eq('id', tokenId);
-
-      if (error) throw error;
-
+      await deleteUnusedToken(tokenId);
       toast.success('Token deleted successfully');
-      fetchTokens();
-    } catch (error) {
+      fetchData();
+    } catch (error: any) {
       console.error('Error deleting unused token:', error);
-      toast.error('Failed to delete token');
+      toast.error(error.message || 'Failed to delete token');
     }
   };
 
-  const handleRenewToken = async (userId: string, oldToken: string, duration: string) => {
+  const handleRenewToken = async (userId: string, duration: string) => {
     try {
-      // Generate new token
-      const newToken = Math.random().toString(36).substring(2, 15) + 
-                      Math.random().toString(36).substring(2, 15);
-      
-      let expiryDate = new Date();
-      switch (duration) {
-        case '3month':
-          expiryDate.setMonth(expiryDate.getMonth() + 3);
-          break;
-        case '6month':
-          expiryDate.setMonth(expiryDate.getMonth() + 6);
-          break;
-        case '1year':
-          expiryDate.setFullYear(expiryDate.getFullYear() + 1);
-          break;
-      }
+      await renewToken(userId, duration);
+      toast.success('Token renewed successfully');
+      fetchData();
+    } catch (error: any) {
+      console.error('Error renewing token:', error);
+      toast.error(error.message || 'Failed to renew token');
+    }
+  };
 
-      // Delete old token if it exists
-      if (oldToken) {
-        const { error: deleteError } = await supabase
-          .from('tokens')
-          .delete()
-          .eq('token', oldToken);
+  const handleUnlockUser = async (userId: string) => {
+    try {
+      await unlockUser(userId);
+      toast.success('User unlocked successfully');
+      fetchData();
+    } catch (error: any) {
+      console.error('Error unlocking user:', error);
+      toast.error(error.message || 'Failed to unlock user');
+    }
+  };
 
-        if (deleteError) throw deleteError;
-      }
+  const handleAllowDeviceTransfer = async (userId: string) => {
+    try {
+      await allowDeviceTransfer(userId);
+      toast.success('User can now transfer to a new device');
+      fetchData();
+    } catch (error: any) {
+      console.error('Error allowing device transfer:', error);
+      toast.error(error.message || 'Failed to allow device transfer');
+    }
+  };
 
-      // Create new token
-      const { error: tokenError } = await supabase
-        .from('tokens')
-        .insert([
-          {
-            token: newToken,
-            duration,
-            expiry_date: expiryDate.toISOString(),
-            is_used: true,
-            created_at: new Date().toISOString()
-          }
-        ]);
-
-      if (tokenError) throw tokenError;
-
-      // Update user with new token
-      const { error: userError } = await supabase
-        .from('users')
-        .update({ token: newToken })
-        .eq('id', userId);
-
-      if (userError) throw userError;
+  // The plain code is only shown once, right after it is issued
+  const [resetCode, setResetCode] = useState<{ username: string; code: string; expiresAt: string } | null>(null);
 
-      toast.success('Token renewed successfully');
+  const handleCreateResetCode = async (user: User) => {
+    try {
+      const { code, expiresAt } = await createPasswordResetCode(user.id);
+      setResetCode({ username: user.username, code, expiresAt });
+    } catch (error: any) {
+      console.error('Error creating reset code:', error);
+      toast.error(error.message || 'Failed to create reset code');
+    }
+  };
+
+  const [activeDeviceUser, setActiveDeviceUser] = useState<string | null>(null);
+  const [deviceReason, setDeviceReason] = useState('');
+
+  const handleDeviceBinding = async (
+    userId: string,
+    action: 'lock' | 'unlock' | 'reset' | 'rebind',
+    fingerprint?: string
+  ) => {
+    try {
+      await updateDeviceBinding(userId, action, deviceReason, fingerprint);
+      toast.success('Device binding updated');
+      setActiveDeviceUser(null);
+      setDeviceReason('');
       fetchData();
-    } catch (error) {
-      console.error('Error renewing token:', error);
-      toast.error('Failed to renew token');
+    } catch (error: any) {
+      console.error('Error updating device binding:', error);
+      toast.error(error.message || 'Failed to update device binding');
     }
   };
 
@@ -449,69 +273,6 @@ export default function Admin() {
   const [renewDuration, setRenewDuration] = useState('3month');
   const [activeRenewalUser, setActiveRenewalUser] = useState<string | null>(null);
 
-  // Function to check and handle expired tokens
-  const handleExpiredTokens = async () => {
-    try {
-      // Get all users with tokens
-      const { data: users, error } = await supabase
-        .from('users')
-        .select('*')
-        .not('token', 'is', null);
-
-      if (error) throw error;
-
-      const currentTime = new Date().getTime();
-
-      // Check each user's token
-      for (const user of users) {
-        if (user.token && user.expiry_date) {
-          const expiryTime = new Date(user.expiry_date).getTime();
-          
-          // If token is expired
-          if (currentTime > expiryTime) {
-            console.log(`Token expired for user: ${user.username}`);
-            
-            // Update user record: remove token and mark as expired
-            const { error: updateError } = await supabase
-              .from('users')
-              .update({
-                token: null,
-                expiry_date: null
-              })
-              .eq('id', user.id);
-
-            if (updateError) {
-              console.error('Error updating expired token:', updateError);
-            }
-
-            // Delete token from tokens table
-            const { error: tokenError } = await supabase
-              .from('tokens')
-              .delete()
-              .eq('token', user.token);
-
-            if (tokenError) {
-              console.error('Error deleting expired token:', tokenError);
-            }
-          }
-        }
-      }
-    } catch (error) {
-      console.error('Error handling expired tokens:', error);
-    }
-  };
-
-  // Run token expiration check periodically
-  useEffect(() => {
-    // Initial check
-    handleExpiredTokens();
-
-    // Check every minute
-    const interval = setInterval(handleExpiredTokens, 60000);
-
-    return () => clearInterval(interval);
-  }, []);
-
   // Add loading screen
   if (isLoading) {
     return (
@@ -530,54 +291,7 @@ export default function Admin() {
   }
 
   if (!isAuthenticated) {
-    return (
-      <main className="min-h-screen flex flex-col items-center justify-center p-4">
-        <div className="gaming-card max-w-md w-full mx-auto space-y-8">
-          <div className="text-center">
-            <h1 className="text-4xl font-bold text-red-500 mb-2">Admin Access</h1>
-            <p className="text-gray-400">Secure administration portal</p>
-          </div>
-
-          <form onSubmit={handleLogin} className="space-y-6">
-            <div>
-              <label className="flex items-center gap-2 text-red-400 mb-2">
-                <FaUserShield />
-                Username
-              </label>
-              <input
-                type="text"
-                className="gaming-input"
-                value={loginData.username}
-                onChange={(e) =>
-                  setLoginData({ ...loginData, username: e.target.value })
-                }
-                required
-              />
-            </div>
-
-            <div>
-              <label className="flex items-center gap-2 text-red-400 mb-2">
-                <FaLock />
-                Password
-              </label>
-              <input
-                type="password"
-                className="gaming-input"
-                value={loginData.password}
-                onChange={(e) =>
-                  setLoginData({ ...loginData, password: e.target.value })
-                }
-                required
-              />
-            </div>
-
-            <button type="submit" className="gaming-button w-full">
-              Access Control Center
-            </button>
-          </form>
-        </div>
-      </main>
-    );
+    return null;
   }
 
   const groupedTokens = groupTokensByDuration();
@@ -595,334 +309,573 @@ export default function Admin() {
                   Admin Control Center
                   <div className="absolute bottom-0 left-0 w-full h-0.5 bg-gradient-to-r from-blue-500 via-red-500 to-blue-500 rounded-full shadow-lg"></div>
                 </h1>
-                <p className="text-gray-400">Manage users and tokens</p>
+                <p className="text-gray-400">
+                  Signed in as {admin?.username} ({admin?.role})
+                </p>
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              {!admin?.totpEnabled && (
+                <button
+                  onClick={() => setShowTwoFactorSetup(!showTwoFactorSetup)}
+                  className="gaming-button px-4 py-2 bg-black/30 hover:bg-black/40 border border-red-500/50"
+                >
+                  Enable 2FA
+                </button>
+              )}
+              <button
+                onClick={handleLogout}
+                className="gaming-button px-4 py-2 bg-black/30 hover:bg-black/40 border border-blue-500/50"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {showTwoFactorSetup && (
+          <div className="gaming-card max-w-md mx-auto">
+            <h2 className="text-xl font-bold text-red-400 mb-4">Two-Factor Authentication</h2>
+            <TwoFactorSetup
+              onComplete={async () => {
+                setShowTwoFactorSetup(false);
+                setAdmin(await getAdminSession());
+              }}
+            />
+          </div>
+        )}
+
+        {resetCode && (
+          <div className="gaming-card max-w-md mx-auto text-center space-y-2">
+            <h2 className="text-xl font-bold text-red-400">Reset code for {resetCode.username}</h2>
+            <p className="font-mono text-2xl text-white tracking-widest select-all">{resetCode.code}</p>
+            <p className="text-sm text-gray-400">
+              Single use, valid until {formatDate(resetCode.expiresAt)}. The user enters it on
+              the Reset Password page. It won&apos;t be shown again.
+            </p>
             <button
-              onClick={handleLogout}
-              className="gaming-button px-4 py-2 bg-black/30 hover:bg-black/40 border border-blue-500/50"
+              onClick={() => setResetCode(null)}
+              className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
             >
-              Logout
+              Done
             </button>
           </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setActiveTab('manage')}
+            className={`px-4 py-2 rounded ${activeTab === 'manage' ? 'bg-blue-600 text-white' : 'bg-black/30 text-gray-400 hover:text-white'}`}
+          >
+            Management
+          </button>
+          <button
+            onClick={() => setActiveTab('auth')}
+            className={`px-4 py-2 rounded ${activeTab === 'auth' ? 'bg-blue-600 text-white' : 'bg-black/30 text-gray-400 hover:text-white'}`}
+          >
+            Sign-in Events
+          </button>
+          <button
+            onClick={() => setActiveTab('expiring')}
+            className={`px-4 py-2 rounded ${activeTab === 'expiring' ? 'bg-blue-600 text-white' : 'bg-black/30 text-gray-400 hover:text-white'}`}
+          >
+            Expiring Soon
+          </button>
+          {can('audit:view') && (
+            <button
+              onClick={() => setActiveTab('audit')}
+              className={`px-4 py-2 rounded ${activeTab === 'audit' ? 'bg-blue-600 text-white' : 'bg-black/30 text-gray-400 hover:text-white'}`}
+            >
+              Audit Log
+            </button>
+          )}
+          {can('admins:manage') && (
+            <button
+              onClick={() => setActiveTab('admins')}
+              className={`px-4 py-2 rounded ${activeTab === 'admins' ? 'bg-blue-600 text-white' : 'bg-black/30 text-gray-400 hover:text-white'}`}
+            >
+              Admins
+            </button>
+          )}
         </div>
 
-        {/* Token Generation and Display Section */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {/* 3 Month Tokens */}
-          <div className="gaming-card border-2 border-blue-500/70 h-[300px] flex flex-col">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold text-red-400">3 Month Tokens</h2>
-              <button
-                onClick={() => handleGenerateToken('3month')}
-                className="gaming-button px-4 py-2"
-              >
-                Generate
-              </button>
-            </div>
-            <div className="flex-1 overflow-x-auto overflow-y-auto">
-              <div className="space-y-2">
-                {groupedTokens['3month']?.map((token) => {
-                  const isUsed = token.is_used;
-                  return (
-                    <div 
-                      key={token.id} 
-                      className={`bg-black/30 p-3 rounded-lg text-sm ${
-                        isUsed ? 'border border-red-500/50' : 'border border-green-500/50'
-                      }`}
+        {activeTab === 'auth' && <AuthEvents initialUsername={eventsUsername} />}
+
+        {activeTab === 'expiring' && <ExpiringUsers />}
+
+        {activeTab === 'audit' && can('audit:view') && <AuditLog />}
+
+        {activeTab === 'admins' && admin && can('admins:manage') && (
+          <AdminAccounts currentAdminId={admin.adminId} />
+        )}
+
+        {activeTab === 'manage' && (
+          <>
+            {/* Token Generation and Display Section */}
+            {can('tokens:generate') && (
+              <div className="flex items-center justify-end gap-2 text-gray-400">
+                <label htmlFor="new-token-devices">Devices per new token:</label>
+                <select
+                  id="new-token-devices"
+                  value={newTokenDevices}
+                  onChange={(e) => setNewTokenDevices(Number(e.target.value))}
+                  className="bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+                >
+                  {[1, 2, 3, 4, 5].map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {/* 3 Month Tokens */}
+              <div className="gaming-card border-2 border-blue-500/70 h-[300px] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-red-400">3 Month Tokens</h2>
+                  {can('tokens:generate') && (
+                    <button
+                      onClick={() => handleGenerateToken('3month')}
+                      className="gaming-button px-4 py-2"
                     >
-                      <div className="flex justify-between items-start">
-                        <div className="space-y-1">
-                          <p className={isUsed ? 'text-red-500' : 'text-green-500'}>
-                            {token.token}
-                          </p>
-                          <p className={`text-sm ${isUsed ? 'text-red-400' : 'text-gray-400'}`}>
-                            Status: {isUsed ? 'Used' : 'Available'}
-                          </p>
-                          <p className="text-gray-400">
-                            Expires: {new Date(token.expiry_date).toLocaleDateString()}
-                          </p>
-                          {token.used_by && (
-                            <p className="text-red-400 text-sm">
-                              Used by: {token.used_by}
-                            </p>
-                          )}
+                      Generate
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-x-auto overflow-y-auto">
+                  <div className="space-y-2">
+                    {groupedTokens['3month']?.map((token) => {
+                      const isUsed = token.is_used;
+                      return (
+                        <div 
+                          key={token.id} 
+                          className={`bg-black/30 p-3 rounded-lg text-sm ${
+                            isUsed ? 'border border-red-500/50' : 'border border-green-500/50'
+                          }`}
+                        >
+                          <div className="flex justify-between items-start">
+                            <div className="space-y-1">
+                              <p className={isUsed ? 'text-red-500' : 'text-green-500'}>
+                                {token.token}
+                              </p>
+                              <p className={`text-sm ${isUsed ? 'text-red-400' : 'text-gray-400'}`}>
+                                Status: {isUsed ? 'Used' : 'Available'}
+                              </p>
+                              <p className="text-gray-400">
+                                Expires: {new Date(token.expiry_date).toLocaleDateString()}
+                              </p>
+                              <p className="text-gray-400">
+                                Devices: {token.max_devices || 1}
+                              </p>
+                              {token.used_by && (
+                                <p className="text-red-400 text-sm">
+                                  Used by: {token.used_by}
+                                </p>
+                              )}
+                            </div>
+                            {!isUsed && can('tokens:delete') && (
+                              <button
+                                onClick={() => handleDeleteUnusedToken(token.id)}
+                                className="text-red-500 hover:text-red-400"
+                                title="Delete Token"
+                              >
+                                <FaTrash />
+                              </button>
+                            )}
+                          </div>
                         </div>
-                        {!isUsed && (
-                          <button
-                            onClick={() => handleDeleteUnusedToken(token.id)}
-                            className="text-red-500 hover:text-red-400"
-                            title="Delete Token"
-                          >
-                            <FaTrash />
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
+                      );
+                    })}
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* 6 Month Tokens */}
-          <div className="gaming-card border-2 border-blue-500/70 h-[300px] flex flex-col">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold text-red-400">6 Month Tokens</h2>
-              <button
-                onClick={() => handleGenerateToken('6month')}
-                className="gaming-button px-4 py-2"
-              >
-                Generate
-              </button>
-            </div>
-            <div className="flex-1 overflow-x-auto overflow-y-auto">
-              <div className="space-y-2">
-                {groupedTokens['6month']?.map((token) => {
-                  const isUsed = token.is_used;
-                  return (
-                    <div 
-                      key={token.id} 
-                      className={`bg-black/30 p-3 rounded-lg text-sm ${
-                        isUsed ? 'border border-red-500/50' : 'border border-green-500/50'
-                      }`}
+              {/* 6 Month Tokens */}
+              <div className="gaming-card border-2 border-blue-500/70 h-[300px] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-red-400">6 Month Tokens</h2>
+                  {can('tokens:generate') && (
+                    <button
+                      onClick={() => handleGenerateToken('6month')}
+                      className="gaming-button px-4 py-2"
                     >
-                      <div className="flex justify-between items-start">
-                        <div className="space-y-1">
-                          <p className={isUsed ? 'text-red-500' : 'text-green-500'}>
-                            {token.token}
-                          </p>
-                          <p className={`text-sm ${isUsed ? 'text-red-400' : 'text-gray-400'}`}>
-                            Status: {isUsed ? 'Used' : 'Available'}
-                          </p>
-                          <p className="text-gray-400">
-                            Expires: {new Date(token.expiry_date).toLocaleDateString()}
-                          </p>
-                          {token.used_by && (
-                            <p className="text-red-400 text-sm">
-                              Used by: {token.used_by}
-                            </p>
-                          )}
+                      Generate
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-x-auto overflow-y-auto">
+                  <div className="space-y-2">
+                    {groupedTokens['6month']?.map((token) => {
+                      const isUsed = token.is_used;
+                      return (
+                        <div 
+                          key={token.id} 
+                          className={`bg-black/30 p-3 rounded-lg text-sm ${
+                            isUsed ? 'border border-red-500/50' : 'border border-green-500/50'
+                          }`}
+                        >
+                          <div className="flex justify-between items-start">
+                            <div className="space-y-1">
+                              <p className={isUsed ? 'text-red-500' : 'text-green-500'}>
+                                {token.token}
+                              </p>
+                              <p className={`text-sm ${isUsed ? 'text-red-400' : 'text-gray-400'}`}>
+                                Status: {isUsed ? 'Used' : 'Available'}
+                              </p>
+                              <p className="text-gray-400">
+                                Expires: {new Date(token.expiry_date).toLocaleDateString()}
+                              </p>
+                              <p className="text-gray-400">
+                                Devices: {token.max_devices || 1}
+                              </p>
+                              {token.used_by && (
+                                <p className="text-red-400 text-sm">
+                                  Used by: {token.used_by}
+                                </p>
+                              )}
+                            </div>
+                            {!isUsed && can('tokens:delete') && (
+                              <button
+                                onClick={() => handleDeleteUnusedToken(token.id)}
+                                className="text-red-500 hover:text-red-400"
+                                title="Delete Token"
+                              >
+                                <FaTrash />
+                              </button>
+                            )}
+                          </div>
                         </div>
-                        {!isUsed && (
-                          <button
-                            onClick={() => handleDeleteUnusedToken(token.id)}
-                            className="text-red-500 hover:text-red-400"
-                            title="Delete Token"
-                          >
-                            <FaTrash />
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
+                      );
+                    })}
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
 
-          {/* 1 Year Tokens */}
-          <div className="gaming-card border-2 border-blue-500/70 h-[300px] flex flex-col">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold text-red-400">1 Year Tokens</h2>
-              <button
-                onClick={() => handleGenerateToken('1year')}
-                className="gaming-button px-4 py-2"
-              >
-                Generate
-              </button>
-            </div>
-            <div className="flex-1 overflow-x-auto overflow-y-auto">
-              <div className="space-y-2">
-                {groupedTokens['1year']?.map((token) => {
-                  const isUsed = token.is_used;
-                  return (
-                    <div 
-                      key={token.id} 
-                      className={`bg-black/30 p-3 rounded-lg text-sm ${
-                        isUsed ? 'border border-red-500/50' : 'border border-green-500/50'
-                      }`}
+              {/* 1 Year Tokens */}
+              <div className="gaming-card border-2 border-blue-500/70 h-[300px] flex flex-col">
+                <div className="flex justify-between items-center mb-4">
+                  <h2 className="text-xl font-bold text-red-400">1 Year Tokens</h2>
+                  {can('tokens:generate') && (
+                    <button
+                      onClick={() => handleGenerateToken('1year')}
+                      className="gaming-button px-4 py-2"
                     >
-                      <div className="flex justify-between items-start">
-                        <div className="space-y-1">
-                          <p className={isUsed ? 'text-red-500' : 'text-green-500'}>
-                            {token.token}
-                          </p>
-                          <p className={`text-sm ${isUsed ? 'text-red-400' : 'text-gray-400'}`}>
-                            Status: {isUsed ? 'Used' : 'Available'}
-                          </p>
-                          <p className="text-gray-400">
-                            Expires: {new Date(token.expiry_date).toLocaleDateString()}
-                          </p>
-                          {token.used_by && (
-                            <p className="text-red-400 text-sm">
-                              Used by: {token.used_by}
-                            </p>
-                          )}
+                      Generate
+                    </button>
+                  )}
+                </div>
+                <div className="flex-1 overflow-x-auto overflow-y-auto">
+                  <div className="space-y-2">
+                    {groupedTokens['1year']?.map((token) => {
+                      const isUsed = token.is_used;
+                      return (
+                        <div 
+                          key={token.id} 
+                          className={`bg-black/30 p-3 rounded-lg text-sm ${
+                            isUsed ? 'border border-red-500/50' : 'border border-green-500/50'
+                          }`}
+                        >
+                          <div className="flex justify-between items-start">
+                            <div className="space-y-1">
+                              <p className={isUsed ? 'text-red-500' : 'text-green-500'}>
+                                {token.token}
+                              </p>
+                              <p className={`text-sm ${isUsed ? 'text-red-400' : 'text-gray-400'}`}>
+                                Status: {isUsed ? 'Used' : 'Available'}
+                              </p>
+                              <p className="text-gray-400">
+                                Expires: {new Date(token.expiry_date).toLocaleDateString()}
+                              </p>
+                              <p className="text-gray-400">
+                                Devices: {token.max_devices || 1}
+                              </p>
+                              {token.used_by && (
+                                <p className="text-red-400 text-sm">
+                                  Used by: {token.used_by}
+                                </p>
+                              )}
+                            </div>
+                            {!isUsed && can('tokens:delete') && (
+                              <button
+                                onClick={() => handleDeleteUnusedToken(token.id)}
+                                className="text-red-500 hover:text-red-400"
+                                title="Delete Token"
+                              >
+                                <FaTrash />
+                              </button>
+                            )}
+                          </div>
                         </div>
-                        {!isUsed && (
-                          <button
-                            onClick={() => handleDeleteUnusedToken(token.id)}
-                            className="text-red-500 hover:text-red-400"
-                            title="Delete Token"
-                          >
-                            <FaTrash />
-                          </button>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
+                      );
+                    })}
+                  </div>
+                </div>
               </div>
             </div>
-          </div>
-        </div>
 
-        {/* Users and Tokens Table */}
-        <div className="gaming-card border-2 border-blue-500/70 h-[400px] flex flex-col">
-          <h2 className="text-2xl font-bold text-red-400 mb-6">Users & Tokens Management</h2>
-          <div className="flex-1 overflow-x-auto overflow-y-auto">
-            <table className="w-full text-left">
-              <thead>
-                <tr className="border-b border-red-500/20">
-                  <th className="px-4 py-2 text-red-400">S.No</th>
-                  <th className="px-4 py-2 text-red-400">Username</th>
-                  <th className="px-4 py-2 text-red-400">Duration</th>
-                  <th className="px-4 py-2 text-red-400">Token</th>
-                  <th className="px-4 py-2 text-red-400">Expire Date</th>
-                  <th className="px-4 py-2 text-red-400">Created At</th>
-                  <th className="px-6 py-4 whitespace-nowrap">User Status</th>
-                  <th className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Token Expiry</th>
-                  <th className="px-4 py-2 text-red-400">Device ID</th>
-                  <th className="px-4 py-2 text-red-400">Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {users.map((user, index) => {
-                  const userToken = tokens.find(t => t.token === user.token);
-                  const isRenewalOpen = activeRenewalUser === user.id;
-
-                  return (
-                    <tr key={user.id} className={`border-b border-red-500/10 ${
-                      user.token && new Date(user.expiry_date) > new Date() ? 'text-green-500' : ''
-                    }`}>
-                      <td className="px-4 py-2 text-gray-400">{index + 1}</td>
-                      <td className="px-4 py-2 text-gray-400">{user.username}</td>
-                      <td className="px-4 py-2 text-gray-400">{userToken?.duration || '-'}</td>
-                      <td className="px-4 py-2 text-gray-400">{user.token || '-'}</td>
-                      <td className="px-4 py-2 text-gray-400">
-                        {userToken?.expiry_date ? (
-                          <span className={
-                            new Date(userToken.expiry_date) < new Date()
-                              ? 'text-red-500'
-                              : ''
-                          }>
-                            {new Date(userToken.expiry_date).toLocaleDateString()}
-                          </span>
-                        ) : (
-                          'N/A'
-                        )}
-                      </td>
-                      <td className="px-4 py-2 text-gray-400">
-                        {formatDate(user.created_at)}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                          !user.token
-                            ? 'bg-red-100 text-red-800'
-                            : new Date(user.expiry_date) < new Date()
-                            ? 'bg-yellow-100 text-yellow-800'
-                            : 'bg-green-100 text-green-800'
+            {/* Users and Tokens Table */}
+            <div className="gaming-card border-2 border-blue-500/70 h-[400px] flex flex-col">
+              <h2 className="text-2xl font-bold text-red-400 mb-6">Users & Tokens Management</h2>
+              <div className="flex-1 overflow-x-auto overflow-y-auto">
+                <table className="w-full text-left">
+                  <thead>
+                    <tr className="border-b border-red-500/20">
+                      <th className="px-4 py-2 text-red-400">S.No</th>
+                      <th className="px-4 py-2 text-red-400">Username</th>
+                      <th className="px-4 py-2 text-red-400">Duration</th>
+                      <th className="px-4 py-2 text-red-400">Token</th>
+                      <th className="px-4 py-2 text-red-400">Expire Date</th>
+                      <th className="px-4 py-2 text-red-400">Created At</th>
+                      <th className="px-6 py-4 whitespace-nowrap">User Status</th>
+                      <th className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">Expired On</th>
+                      <th className="px-4 py-2 text-red-400">Device ID</th>
+                      <th className="px-4 py-2 text-red-400">Lock Status</th>
+                      <th className="px-4 py-2 text-red-400">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {users.map((user, index) => {
+                      const userToken = tokens.find(t => t.token === user.token);
+                      const isRenewalOpen = activeRenewalUser === user.id;
+                      const isLocked = !!user.locked_until && new Date(user.locked_until) > new Date();
+
+                      return (
+                        <tr key={user.id} className={`border-b border-red-500/10 ${
+                          userToken?.expiry_date && new Date(userToken.expiry_date) > new Date() ? 'text-green-500' : ''
                         }`}>
-                          {!user.token
-                            ? 'No Access'
-                            : new Date(user.expiry_date) < new Date()
-                            ? 'Expired'
-                            : 'Active'}
-                        </span>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        {user.expiry_date ? (
-                          <span className={
-                            new Date(user.expiry_date) < new Date()
-                              ? 'text-red-500'
-                              : ''
-                          }>
-                            {new Date(user.expiry_date).toLocaleDateString()}
-                          </span>
-                        ) : (
-                          'N/A'
-                        )}
-                      </td>
-                      <td className="px-4 py-2 text-gray-400">
-                        <span className="font-mono text-xs break-all">
-                          {user.device_fingerprint || 'Not registered'}
-                        </span>
-                      </td>
-                      <td className="px-4 py-2 space-x-2 flex items-center">
-                        <button
-                          onClick={() => handleDeleteUser(user.id)}
-                          className="text-red-500 hover:text-red-400"
-                          title="Delete User"
-                        >
-                          <FaTrash />
-                        </button>
-                        {user.token && user.token !== '' && (
-                          <button
-                            onClick={() => handleDeleteUserToken(user.id, user.token)}
-                            className="text-red-500 hover:text-red-400"
-                            title="Delete Token"
-                          >
-                            <FaKey />
-                          </button>
-                        )}
-                        <div className="relative">
-                          <button
-                            onClick={() => setActiveRenewalUser(isRenewalOpen ? null : user.id)}
-                            className="text-yellow-500 hover:text-yellow-400"
-                            title="Renew Token"
-                          >
-                            <FaSync />
-                          </button>
-                          {isRenewalOpen && (
-                            <div className="absolute z-10 mt-2 w-48 bg-black/90 rounded-lg shadow-lg p-2 right-0">
-                              <select
-                                value={renewDuration}
-                                onChange={(e) => setRenewDuration(e.target.value)}
-                                className="w-full mb-2 bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+                          <td className="px-4 py-2 text-gray-400">{index + 1}</td>
+                          <td className="px-4 py-2 text-gray-400">{user.username}</td>
+                          <td className="px-4 py-2 text-gray-400">
+                            {userToken ? `${userToken.duration} · ${userToken.max_devices || 1} device(s)` : '-'}
+                          </td>
+                          <td className="px-4 py-2 text-gray-400">{user.token || '-'}</td>
+                          <td className="px-4 py-2 text-gray-400">
+                            {userToken?.expiry_date ? (
+                              <span className={
+                                new Date(userToken.expiry_date) < new Date()
+                                  ? 'text-red-500'
+                                  : ''
+                              }>
+                                {new Date(userToken.expiry_date).toLocaleDateString()}
+                              </span>
+                            ) : (
+                              'N/A'
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-gray-400">
+                            {formatDate(user.created_at)}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              !user.token
+                                ? 'bg-red-100 text-red-800'
+                                : !userToken?.expiry_date || new Date(userToken.expiry_date) < new Date()
+                                ? 'bg-yellow-100 text-yellow-800'
+                                : 'bg-green-100 text-green-800'
+                            }`}>
+                              {!user.token
+                                ? 'No Access'
+                                : !userToken?.expiry_date || new Date(userToken.expiry_date) < new Date()
+                                ? 'Expired'
+                                : 'Active'}
+                            </span>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                            {userToken?.expired_at ? (
+                              <span className="text-red-500">
+                                {new Date(userToken.expired_at).toLocaleDateString()}
+                              </span>
+                            ) : (
+                              'N/A'
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-gray-400">
+                            <span className="font-mono text-xs break-all">
+                              {user.device_fingerprint || 'Not registered'}
+                            </span>
+                            {user.hardware_lock && (
+                              <span className="block text-xs text-red-400">Hardware locked</span>
+                            )}
+                            {user.transfer_override && (
+                              <span className="block text-xs text-yellow-500">Transfer allowed</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-gray-400 whitespace-nowrap">
+                            {isLocked ? (
+                              <span className="text-red-500" title={`${user.failed_attempts} failed attempts`}>
+                                Locked until {formatDate(user.locked_until!)}
+                              </span>
+                            ) : user.failed_attempts > 0 ? (
+                              <span className="text-yellow-500">{user.failed_attempts} failed</span>
+                            ) : (
+                              'OK'
+                            )}
+                          </td>
+                          <td className="px-4 py-2 space-x-2 flex items-center">
+                            {(isLocked || user.failed_attempts > 0) && can('users:unlock') && (
+                              <button
+                                onClick={() => handleUnlockUser(user.id)}
+                                className="text-green-500 hover:text-green-400"
+                                title="Unlock User"
+                              >
+                                <FaUnlock />
+                              </button>
+                            )}
+                            {!user.transfer_override && can('devices:override') && (
+                              <button
+                                onClick={() => handleAllowDeviceTransfer(user.id)}
+                                className="text-blue-500 hover:text-blue-400"
+                                title="Allow Device Transfer"
                               >
-                                <option value="3month">3 Months</option>
-                                <option value="6month">6 Months</option>
-                                <option value="1year">1 Year</option>
-                              </select>
-                              <div className="flex justify-between">
+                                <FaExchangeAlt />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => {
+                                setEventsUsername(user.username);
+                                setActiveTab('auth');
+                              }}
+                              className="text-gray-400 hover:text-gray-300"
+                              title="View Sign-in Events"
+                            >
+                              <FaHistory />
+                            </button>
+                            {can('users:reset_password') && (
+                              <button
+                                onClick={() => handleCreateResetCode(user)}
+                                className="text-orange-400 hover:text-orange-300"
+                                title="Issue Password Reset Code"
+                              >
+                                <FaUndo />
+                              </button>
+                            )}
+                            {can('devices:override') && (
+                              <div className="relative">
                                 <button
                                   onClick={() => {
-                                    handleRenewToken(user.id, user.token, renewDuration);
-                                    setActiveRenewalUser(null);
+                                    setActiveDeviceUser(activeDeviceUser === user.id ? null : user.id);
+                                    setDeviceReason('');
                                   }}
-                                  className="bg-yellow-500 hover:bg-yellow-600 text-black px-3 py-1 rounded text-sm"
+                                  className="text-purple-400 hover:text-purple-300"
+                                  title="Manage Device Binding"
                                 >
-                                  Renew
+                                  <FaLaptop />
                                 </button>
+                                {activeDeviceUser === user.id && (
+                                  <div className="absolute z-10 mt-2 w-64 bg-black/90 rounded-lg shadow-lg p-2 right-0 space-y-2">
+                                    <input
+                                      type="text"
+                                      value={deviceReason}
+                                      onChange={(e) => setDeviceReason(e.target.value)}
+                                      placeholder="Reason (required to reset or re-bind)"
+                                      className="w-full bg-black/50 text-gray-300 rounded p-1 border border-gray-700 text-sm"
+                                    />
+                                    <button
+                                      onClick={() => handleDeviceBinding(user.id, user.hardware_lock ? 'unlock' : 'lock')}
+                                      className="w-full bg-purple-600 hover:bg-purple-700 text-white px-3 py-1 rounded text-sm"
+                                    >
+                                      {user.hardware_lock ? 'Remove hardware lock' : 'Enable hardware lock'}
+                                    </button>
+                                    {user.device_fingerprint && (
+                                      <button
+                                        onClick={() => handleDeviceBinding(user.id, 'reset')}
+                                        className="w-full bg-red-600 hover:bg-red-700 text-white px-3 py-1 rounded text-sm"
+                                      >
+                                        Reset binding
+                                      </button>
+                                    )}
+                                    {user.active_devices
+                                      .filter(device => device !== user.device_fingerprint)
+                                      .map(device => (
+                                        <button
+                                          key={device}
+                                          onClick={() => handleDeviceBinding(user.id, 'rebind', device)}
+                                          className="w-full bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm truncate"
+                                          title={device}
+                                        >
+                                          Bind to {device.slice(0, 12)}…
+                                        </button>
+                                      ))}
+                                    <button
+                                      onClick={() => setActiveDeviceUser(null)}
+                                      className="w-full bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+                                    >
+                                      Cancel
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
+                            )}
+                            {can('users:delete') && (
+                              <button
+                                onClick={() => handleDeleteUser(user.id)}
+                                className="text-red-500 hover:text-red-400"
+                                title="Delete User"
+                              >
+                                <FaTrash />
+                              </button>
+                            )}
+                            {user.token && user.token !== '' && can('tokens:delete') && (
+                              <button
+                                onClick={() => handleDeleteUserToken(user.id)}
+                                className="text-red-500 hover:text-red-400"
+                                title="Delete Token"
+                              >
+                                <FaKey />
+                              </button>
+                            )}
+                            {can('tokens:renew') && (
+                              <div className="relative">
                                 <button
-                                  onClick={() => setActiveRenewalUser(null)}
-                                  className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+                                  onClick={() => setActiveRenewalUser(isRenewalOpen ? null : user.id)}
+                                  className="text-yellow-500 hover:text-yellow-400"
+                                  title="Renew Token"
                                 >
-                                  Cancel
+                                  <FaSync />
                                 </button>
+                                {isRenewalOpen && (
+                                  <div className="absolute z-10 mt-2 w-48 bg-black/90 rounded-lg shadow-lg p-2 right-0">
+                                    <select
+                                      value={renewDuration}
+                                      onChange={(e) => setRenewDuration(e.target.value)}
+                                      className="w-full mb-2 bg-black/50 text-gray-300 rounded p-1 border border-gray-700"
+                                    >
+                                      <option value="3month">3 Months</option>
+                                      <option value="6month">6 Months</option>
+                                      <option value="1year">1 Year</option>
+                                    </select>
+                                    <div className="flex justify-between">
+                                      <button
+                                        onClick={() => {
+                                          handleRenewToken(user.id, renewDuration);
+                                          setActiveRenewalUser(null);
+                                        }}
+                                        className="bg-yellow-500 hover:bg-yellow-600 text-black px-3 py-1 rounded text-sm"
+                                      >
+                                        Renew
+                                      </button>
+                                      <button
+                                        onClick={() => setActiveRenewalUser(null)}
+                                        className="bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded text-sm"
+                                      >
+                                        Cancel
+                                      </button>
+                                    </div>
+                                  </div>
+                                )}
                               </div>
-                            </div>
-                          )}
-                        </div>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
-        </div>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <ActiveSessions canRevoke={can('sessions:revoke')} />
+          </>
+        )}
       </div>
     </main>
   );
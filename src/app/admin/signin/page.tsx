@@ -0,0 +1,162 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { FaUserShield, FaLock, FaShieldAlt } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import { adminSignIn, getAdminSession, verifyAdminMfa } from '@/utils/admin';
+import { TwoFactorSetup } from '../TwoFactorSetup';
+import type { AdminSession } from '@/types';
+
+type Step = 'password' | 'totp' | 'enroll';
+
+function nextStep(admin: AdminSession): Step | null {
+  if (admin.mfaVerified) return null;
+  return admin.totpEnabled ? 'totp' : 'enroll';
+}
+
+export default function AdminSignIn() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [step, setStep] = useState<Step>('password');
+  const [code, setCode] = useState('');
+  const [loginData, setLoginData] = useState({
+    username: '',
+    password: '',
+  });
+
+  // Resume a half-finished sign-in, e.g. after a page reload
+  useEffect(() => {
+    getAdminSession().then((adminSession) => {
+      if (!adminSession) return;
+      const pending = nextStep(adminSession);
+      if (pending) {
+        setStep(pending);
+      } else {
+        router.replace('/admin');
+      }
+    });
+  }, []);
+
+  const finishSignIn = (username: string) => {
+    toast.success(`Welcome, ${username}`);
+    router.replace('/admin');
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const adminSession = await adminSignIn(loginData.username, loginData.password);
+      const pending = nextStep(adminSession);
+      if (pending) {
+        setStep(pending);
+      } else {
+        finishSignIn(adminSession.username);
+      }
+    } catch (error: any) {
+      toast.error(error.message || 'Authentication failed');
+      setLoginData(prev => ({ ...prev, password: '' }));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      const { admin } = await verifyAdminMfa(code);
+      finishSignIn(admin.username);
+    } catch (error: any) {
+      toast.error(error.message || 'Verification failed');
+      setCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4">
+      <div className="gaming-card max-w-md w-full mx-auto space-y-8">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold text-red-500 mb-2">Admin Access</h1>
+          <p className="text-gray-400">Secure administration portal</p>
+        </div>
+
+        {step === 'enroll' && (
+          <div className="space-y-4">
+            <p className="text-red-400 text-center">
+              Two-factor authentication is required for admin accounts.
+            </p>
+            <TwoFactorSetup onComplete={() => router.replace('/admin')} />
+          </div>
+        )}
+
+        {step === 'totp' && (
+          <form onSubmit={handleVerify} className="space-y-6">
+            <div>
+              <label className="flex items-center gap-2 text-red-400 mb-2">
+                <FaShieldAlt />
+                Verification Code
+              </label>
+              <input
+                type="text"
+                autoComplete="one-time-code"
+                className="gaming-input"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6 digit code or recovery code"
+                required
+              />
+            </div>
+
+            <button type="submit" className="gaming-button w-full" disabled={isSubmitting}>
+              Verify
+            </button>
+          </form>
+        )}
+
+        {step === 'password' && (
+          <form onSubmit={handleLogin} className="space-y-6">
+            <div>
+              <label className="flex items-center gap-2 text-red-400 mb-2">
+                <FaUserShield />
+                Username
+              </label>
+              <input
+                type="text"
+                className="gaming-input"
+                value={loginData.username}
+                onChange={(e) =>
+                  setLoginData({ ...loginData, username: e.target.value })
+                }
+                required
+              />
+            </div>
+
+            <div>
+              <label className="flex items-center gap-2 text-red-400 mb-2">
+                <FaLock />
+                Password
+              </label>
+              <input
+                type="password"
+                className="gaming-input"
+                value={loginData.password}
+                onChange={(e) =>
+                  setLoginData({ ...loginData, password: e.target.value })
+                }
+                required
+              />
+            </div>
+
+            <button type="submit" className="gaming-button w-full" disabled={isSubmitting}>
+              Access Control Center
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { AdminValidationError, adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { setAdminActive } from '@/lib/adminActions';
+
+// Disable or re-enable an admin account
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('admins:manage');
+    const { isActive } = await request.json();
+
+    if (typeof isActive !== 'boolean') {
+      throw new AdminValidationError('isActive must be true or false');
+    }
+
+    await setAdminActive(admin, params.id, isActive);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to update admin account');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { createAdmin, fetchAdmins } from '@/lib/adminActions';
+
+export async function GET() {
+  try {
+    await requireAdmin('admins:manage');
+    return NextResponse.json({ admins: await fetchAdmins() });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to load admin accounts');
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin('admins:manage');
+    const { username, password, role } = await request.json();
+
+    const account = await createAdmin(admin, String(username || '').trim(), String(password || ''), role);
+    return NextResponse.json({ admin: account });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to create admin account');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { fetchAuditLog } from '@/lib/auditLog';
+
+export async function GET(request: Request) {
+  try {
+    await requireAdmin('audit:view');
+    const { searchParams } = new URL(request.url);
+
+    const entries = await fetchAuditLog({
+      action: searchParams.get('action'),
+      admin: searchParams.get('admin'),
+      target: searchParams.get('target'),
+      limit: Number(searchParams.get('limit')) || undefined
+    });
+    return NextResponse.json({ entries });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to load audit log');
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { fetchAuthEvents } from '@/lib/authEvents';
+
+export async function GET(request: Request) {
+  try {
+    await requireAdmin('users:view');
+    const { searchParams } = new URL(request.url);
+
+    const events = await fetchAuthEvents({
+      username: searchParams.get('username'),
+      event: searchParams.get('event'),
+      limit: Number(searchParams.get('limit')) || undefined
+    });
+    return NextResponse.json({ events });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to load sign-in events');
+  }
+}
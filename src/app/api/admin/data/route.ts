@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { fetchAdminData } from '@/lib/adminActions';
+
+export async function GET() {
+  try {
+    await requireAdmin('users:view');
+    return NextResponse.json(await fetchAdminData());
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to refresh data');
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { activateTotp } from '@/lib/adminMfa';
+
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin(undefined, { allowPendingMfa: true });
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json({ error: 'Enter the code from your authenticator app' }, { status: 400 });
+    }
+
+    const recoveryCodes = await activateTotp(admin, code);
+    return NextResponse.json({ recoveryCodes });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to enable two-factor authentication');
+  }
+}
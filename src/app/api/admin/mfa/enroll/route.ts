@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { startTotpEnrollment } from '@/lib/adminMfa';
+
+export async function POST() {
+  try {
+    const admin = await requireAdmin(undefined, { allowPendingMfa: true });
+    return NextResponse.json(await startTotpEnrollment(admin));
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to start two-factor enrollment');
+  }
+}
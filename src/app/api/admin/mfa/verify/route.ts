@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { verifyAdminMfa } from '@/lib/adminMfa';
+import { getClientIp } from '@/lib/loginThrottle';
+
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin(undefined, { allowPendingMfa: true });
+    const { code } = await request.json();
+
+    if (!code) {
+      return NextResponse.json({ error: 'Enter your verification code' }, { status: 400 });
+    }
+
+    await verifyAdminMfa(admin, code, getClientIp(request));
+    return NextResponse.json({ admin: { ...admin, mfaVerified: true } });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Verification failed');
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+
+export async function GET() {
+  try {
+    // Pending sessions are reported too so the UI can continue the second step
+    const admin = await requireAdmin(undefined, { allowPendingMfa: true });
+    return NextResponse.json({ admin });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Session check failed');
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { fetchActiveSessions } from '@/lib/adminActions';
+
+export async function GET() {
+  try {
+    await requireAdmin('users:view');
+    return NextResponse.json({ sessions: await fetchActiveSessions() });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to load active sessions');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { ADMIN_SESSION_HOURS, adminErrorResponse, signInAdmin } from '@/lib/adminAuth';
+import { ADMIN_SESSION_COOKIE, sessionCookieOptions, signSessionId } from '@/lib/sessionCookie';
+import { getClientIp } from '@/lib/loginThrottle';
+
+export async function POST(request: Request) {
+  try {
+    const { username, password } = await request.json();
+
+    if (!username || !password) {
+      return NextResponse.json({ error: 'Missing credentials' }, { status: 400 });
+    }
+
+    const admin = await signInAdmin(username, password, getClientIp(request));
+
+    const response = NextResponse.json({ admin });
+    response.cookies.set(
+      ADMIN_SESSION_COOKIE,
+      await signSessionId(admin.sessionId),
+      sessionCookieOptions(ADMIN_SESSION_HOURS * 60 * 60)
+    );
+    return response;
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Authentication failed');
+  }
+}
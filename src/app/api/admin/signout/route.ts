@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { endAdminSession, getAdminSessionId } from '@/lib/adminAuth';
+import { ADMIN_SESSION_COOKIE } from '@/lib/sessionCookie';
+
+export async function POST() {
+  const sessionId = await getAdminSessionId();
+  if (sessionId) {
+    await endAdminSession(sessionId);
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { generateToken } from '@/lib/adminActions';
+
+export async function POST(request: Request) {
+  try {
+    const admin = await requireAdmin('tokens:generate');
+    const { duration, maxDevices } = await request.json();
+
+    const token = await generateToken(admin, duration, maxDevices ?? 1);
+    return NextResponse.json({ token });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to generate token');
+  }
+}
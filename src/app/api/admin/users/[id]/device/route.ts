@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { AdminValidationError, adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { updateDeviceBinding, type DeviceBindingAction } from '@/lib/adminActions';
+
+const ACTIONS: DeviceBindingAction[] = ['lock', 'unlock', 'reset', 'rebind'];
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('devices:override');
+    const { action, reason, fingerprint } = await request.json();
+
+    if (!ACTIONS.includes(action)) {
+      throw new AdminValidationError('Unknown device action');
+    }
+
+    // Resets and re-binds move the account between machines, so say why
+    if ((action === 'reset' || action === 'rebind') && !reason?.trim()) {
+      throw new AdminValidationError('Please give a reason for this change');
+    }
+
+    await updateDeviceBinding(admin, params.id, action, reason?.trim() || '', fingerprint);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to update device binding');
+  }
+}
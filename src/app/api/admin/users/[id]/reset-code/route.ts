@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { createPasswordResetCode } from '@/lib/adminActions';
+
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('users:reset_password');
+    const reset = await createPasswordResetCode(admin, params.id);
+    return NextResponse.json(reset);
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to create reset code');
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { deleteUser } from '@/lib/adminActions';
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('users:delete');
+    await deleteUser(admin, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to delete user');
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { deleteUserToken, renewToken } from '@/lib/adminActions';
+
+// Renew the user's token
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('tokens:renew');
+    const { duration } = await request.json();
+
+    await renewToken(admin, params.id, duration);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to renew token');
+  }
+}
+
+// Remove the user's token without deleting the account
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('tokens:delete');
+    await deleteUserToken(admin, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to delete token');
+  }
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { allowDeviceTransfer } from '@/lib/adminActions';
+
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  try {
+    const admin = await requireAdmin('devices:override');
+    await allowDeviceTransfer(admin, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to allow device transfer');
+  }
+}
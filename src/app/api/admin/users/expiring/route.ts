@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { AdminValidationError, adminErrorResponse, requireAdmin } from '@/lib/adminAuth';
+import { fetchExpiringUsers } from '@/lib/adminActions';
+import { EXPIRING_SOON_DAYS } from '@/lib/tokenExpiry';
+
+// Longest look-ahead the view offers
+const MAX_DAYS = 365;
+
+export async function GET(request: Request) {
+  try {
+    await requireAdmin('users:view');
+    const { searchParams } = new URL(request.url);
+
+    const days = searchParams.has('days') ? Number(searchParams.get('days')) : EXPIRING_SOON_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      throw new AdminValidationError(`Days must be a whole number from 1 to ${MAX_DAYS}`);
+    }
+
+    return NextResponse.json({ users: await fetchExpiringUsers(days) });
+  } catch (error: any) {
+    return adminErrorResponse(error, 'Failed to load expiring users');
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getAccountDetails } from '@/lib/auth';
+import { USER_SESSION_COOKIE, verifySessionCookie } from '@/lib/sessionCookie';
+
+export async function GET() {
+  try {
+    const sessionId = await verifySessionCookie(cookies().get(USER_SESSION_COOKIE)?.value);
+    const account = await getAccountDetails(sessionId);
+
+    if (!account) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    return NextResponse.json({ account });
+  } catch (error: any) {
+    console.error('Account lookup error:', error);
+    return NextResponse.json({ error: 'Failed to load account details' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { PasswordChangeError, SessionError, changePassword } from '@/lib/auth';
+import { LoginLockedError, getClientIp, loginLockedResponse } from '@/lib/loginThrottle';
+import { USER_SESSION_COOKIE, verifySessionCookie } from '@/lib/sessionCookie';
+
+export async function POST(request: Request) {
+  try {
+    const sessionId = await verifySessionCookie(cookies().get(USER_SESSION_COOKIE)?.value);
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { currentPassword, newPassword, signOutOtherSessions } = await request.json();
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json({ error: 'Please fill in all fields' }, { status: 400 });
+    }
+
+    await changePassword(
+      sessionId,
+      currentPassword,
+      newPassword,
+      !!signOutOtherSessions,
+      getClientIp(request)
+    );
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Change password error:', error);
+
+    if (error instanceof LoginLockedError) {
+      return loginLockedResponse(error);
+    }
+
+    if (error instanceof PasswordChangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof SessionError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+
+    return NextResponse.json({ error: 'Failed to change password' }, { status: 500 });
+  }
+}
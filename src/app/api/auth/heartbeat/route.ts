@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionError, heartbeat } from '@/lib/auth';
+import { USER_SESSION_COOKIE, verifySessionCookie } from '@/lib/sessionCookie';
+import { parseDeviceComponents } from '@/lib/deviceMatch';
+import { getAuthEventContext } from '@/lib/authEvents';
+import { HEARTBEAT_INTERVAL_SECONDS, HEARTBEAT_MAX_INTERVAL_SECONDS } from '@/lib/sessionLifetime';
+
+export async function POST(request: Request) {
+  try {
+    const sessionId = await verifySessionCookie(cookies().get(USER_SESSION_COOKIE)?.value);
+    const deviceFingerprint = request.headers.get('x-device-fingerprint');
+    const deviceComponents = parseDeviceComponents(request.headers.get('x-device-components'));
+
+    const active = await heartbeat(
+      sessionId,
+      deviceFingerprint,
+      deviceComponents,
+      getAuthEventContext(request)
+    );
+
+    // The server decides the cadence so it can be tuned without a client release
+    const response = NextResponse.json({
+      active,
+      interval: HEARTBEAT_INTERVAL_SECONDS,
+      maxInterval: HEARTBEAT_MAX_INTERVAL_SECONDS
+    });
+    if (!active) {
+      response.cookies.delete(USER_SESSION_COOKIE);
+    }
+    return response;
+  } catch (error: any) {
+    console.error('Heartbeat error:', error);
+
+    if (error instanceof SessionError && error.transient) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+
+    const response = NextResponse.json(
+      { error: error.message || 'Session validation failed' },
+      { status: 401 }
+    );
+    response.cookies.delete(USER_SESSION_COOKIE);
+    return response;
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { PasswordResetError, resetPassword } from '@/lib/auth';
+import { LoginLockedError, getClientIp, loginLockedResponse } from '@/lib/loginThrottle';
+import { USER_SESSION_COOKIE } from '@/lib/sessionCookie';
+
+export async function POST(request: Request) {
+  try {
+    const { username, code, password } = await request.json();
+
+    if (!username || !code || !password) {
+      return NextResponse.json({ error: 'Please fill in all fields' }, { status: 400 });
+    }
+
+    await resetPassword(username, code, password, getClientIp(request));
+
+    // Every session was ended, including any in this browser
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(USER_SESSION_COOKIE);
+    return response;
+  } catch (error: any) {
+    console.error('Password reset error:', error);
+
+    if (error instanceof LoginLockedError) {
+      return loginLockedResponse(error);
+    }
+
+    if (error instanceof PasswordResetError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to reset password. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
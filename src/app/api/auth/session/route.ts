@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SessionError, checkSession } from '@/lib/auth';
+import { USER_SESSION_COOKIE, verifySessionCookie } from '@/lib/sessionCookie';
+import { parseDeviceComponents } from '@/lib/deviceMatch';
+import { getAuthEventContext } from '@/lib/authEvents';
+
+export async function GET(request: Request) {
+  try {
+    const sessionId = await verifySessionCookie(cookies().get(USER_SESSION_COOKIE)?.value);
+    const deviceFingerprint = request.headers.get('x-device-fingerprint');
+    const deviceComponents = parseDeviceComponents(request.headers.get('x-device-components'));
+
+    const session = await checkSession(
+      sessionId,
+      deviceFingerprint,
+      deviceComponents,
+      getAuthEventContext(request)
+    );
+
+    const response = NextResponse.json({ session });
+    if (!session) {
+      response.cookies.delete(USER_SESSION_COOKIE);
+    }
+    return response;
+  } catch (error: any) {
+    console.error('Session check error:', error);
+
+    if (error instanceof SessionError && error.transient) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
+
+    const response = NextResponse.json(
+      { error: error.message || 'Session validation failed' },
+      { status: 401 }
+    );
+    response.cookies.delete(USER_SESSION_COOKIE);
+    return response;
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getSessionHistory } from '@/lib/auth';
+import { USER_SESSION_COOKIE, verifySessionCookie } from '@/lib/sessionCookie';
+
+export async function GET() {
+  try {
+    const sessionId = await verifySessionCookie(cookies().get(USER_SESSION_COOKIE)?.value);
+    const sessions = await getSessionHistory(sessionId);
+
+    if (!sessions) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    return NextResponse.json({ sessions });
+  } catch (error: any) {
+    console.error('Session history error:', error);
+    return NextResponse.json({ error: 'Failed to load session history' }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { ActiveSessionError, DeviceLockedError, signIn } from '@/lib/auth';
+import { LoginLockedError, loginLockedResponse } from '@/lib/loginThrottle';
+import { parseDeviceComponents } from '@/lib/deviceMatch';
+import { getAuthEventContext } from '@/lib/authEvents';
+import {
+  USER_SESSION_COOKIE,
+  USER_SESSION_MAX_AGE,
+  sessionCookieOptions,
+  signSessionId
+} from '@/lib/sessionCookie';
+
+export async function POST(request: Request) {
+  try {
+    const { username, password, deviceFingerprint, deviceComponents } = await request.json();
+
+    if (!username || !password || !deviceFingerprint) {
+      return NextResponse.json({ error: 'Missing credentials' }, { status: 400 });
+    }
+
+    const session = await signIn(
+      username,
+      password,
+      deviceFingerprint,
+      getAuthEventContext(request),
+      parseDeviceComponents(deviceComponents)
+    );
+
+    const response = NextResponse.json(session);
+    response.cookies.set(
+      USER_SESSION_COOKIE,
+      await signSessionId(session.sessionId!),
+      sessionCookieOptions(USER_SESSION_MAX_AGE)
+    );
+    return response;
+  } catch (error: any) {
+    console.error('Sign in error:', error);
+
+    if (error instanceof LoginLockedError) {
+      return loginLockedResponse(error);
+    }
+
+    // The sign-in page offers a device transfer for this one
+    if (error instanceof ActiveSessionError) {
+      return NextResponse.json(
+        { error: error.message, code: 'ACTIVE_ON_OTHER_DEVICE' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof DeviceLockedError) {
+      return NextResponse.json(
+        { error: error.message, code: 'DEVICE_LOCKED' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'An error occurred during sign in' },
+      { status: 401 }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { endSession } from '@/lib/auth';
+import { USER_SESSION_COOKIE, verifySessionCookie } from '@/lib/sessionCookie';
+
+export async function POST() {
+  try {
+    const sessionId = await verifySessionCookie(cookies().get(USER_SESSION_COOKIE)?.value);
+
+    if (sessionId) {
+      await endSession(sessionId);
+    }
+  } catch (error: any) {
+    console.error('Sign out error:', error);
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(USER_SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { SignUpError, signUp } from '@/lib/auth';
+import { parseDeviceComponents } from '@/lib/deviceMatch';
+
+export async function POST(request: Request) {
+  try {
+    const { username, password, token, deviceFingerprint, deviceComponents } = await request.json();
+
+    if (!username || !password || !token || !deviceFingerprint) {
+      return NextResponse.json({ error: 'Please fill in all fields' }, { status: 400 });
+    }
+
+    const result = await signUp(
+      username,
+      password,
+      token,
+      deviceFingerprint,
+      parseDeviceComponents(deviceComponents)
+    );
+    return NextResponse.json(result);
+  } catch (error: any) {
+    console.error('Sign up error:', error);
+
+    if (error instanceof SignUpError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to sign up' },
+      { status: 400 }
+    );
+  }
+}
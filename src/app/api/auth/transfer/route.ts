@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { DeviceLockedError, TransferLimitError, transferDevice } from '@/lib/auth';
+import { LoginLockedError, loginLockedResponse } from '@/lib/loginThrottle';
+import { parseDeviceComponents } from '@/lib/deviceMatch';
+import { getAuthEventContext } from '@/lib/authEvents';
+import {
+  USER_SESSION_COOKIE,
+  USER_SESSION_MAX_AGE,
+  sessionCookieOptions,
+  signSessionId
+} from '@/lib/sessionCookie';
+
+export async function POST(request: Request) {
+  try {
+    const { username, password, deviceFingerprint, deviceComponents } = await request.json();
+
+    if (!username || !password || !deviceFingerprint) {
+      return NextResponse.json({ error: 'Missing credentials' }, { status: 400 });
+    }
+
+    const session = await transferDevice(
+      username,
+      password,
+      deviceFingerprint,
+      getAuthEventContext(request),
+      parseDeviceComponents(deviceComponents)
+    );
+
+    const response = NextResponse.json(session);
+    response.cookies.set(
+      USER_SESSION_COOKIE,
+      await signSessionId(session.sessionId!),
+      sessionCookieOptions(USER_SESSION_MAX_AGE)
+    );
+    return response;
+  } catch (error: any) {
+    console.error('Device transfer error:', error);
+
+    if (error instanceof LoginLockedError) {
+      return loginLockedResponse(error);
+    }
+
+    if (error instanceof TransferLimitError) {
+      return NextResponse.json(
+        { error: error.message, code: 'TRANSFER_LIMIT_REACHED' },
+        { status: 403 }
+      );
+    }
+
+    if (error instanceof DeviceLockedError) {
+      return NextResponse.json(
+        { error: error.message, code: 'DEVICE_LOCKED' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to transfer to this device' },
+      { status: 401 }
+    );
+  }
+}
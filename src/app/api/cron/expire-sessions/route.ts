@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/cron';
+import { expireStaleSessions } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expired = await expireStaleSessions();
+    console.log('Expired stale sessions:', expired);
+    return NextResponse.json({ expired });
+  } catch (error) {
+    console.error('Error expiring sessions:', error);
+    return NextResponse.json({ error: 'Failed to expire sessions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/cron';
+import { expireTokens } from '@/lib/auth';
+
+export async function GET(request: Request) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const expired = await expireTokens();
+    console.log('Expired tokens:', expired);
+    return NextResponse.json({ expired });
+  } catch (error) {
+    console.error('Error expiring tokens:', error);
+    return NextResponse.json({ error: 'Failed to expire tokens' }, { status: 500 });
+  }
+}
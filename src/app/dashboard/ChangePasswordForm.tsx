@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { changePassword } from '@/utils/auth';
+import { PASSWORD_MIN_LENGTH, PASSWORD_POLICY_HINT, checkPasswordPolicy } from '@/lib/passwordPolicy';
+
+export function ChangePasswordForm({ username }: { username: string }) {
+  const [formData, setFormData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [signOutOtherSessions, setSignOutOtherSessions] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const policyError = checkPasswordPolicy(formData.newPassword, username);
+      if (policyError) {
+        throw new Error(policyError);
+      }
+
+      if (formData.newPassword !== formData.confirmPassword) {
+        throw new Error('Passwords do not match');
+      }
+
+      await changePassword(formData.currentPassword, formData.newPassword, signOutOtherSessions);
+
+      toast.success(signOutOtherSessions
+        ? 'Password changed. Your other devices have been signed out.'
+        : 'Password changed');
+      setFormData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+    } catch (error: any) {
+      console.error('Change password error:', error);
+      toast.error(error.message || 'Failed to change password');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <div>
+        <label className="block text-purple-300 mb-2">Current Password</label>
+        <input
+          type="password"
+          className="gaming-input"
+          value={formData.currentPassword}
+          onChange={(e) => setFormData({ ...formData, currentPassword: e.target.value })}
+          autoComplete="current-password"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-purple-300 mb-2">New Password</label>
+        <input
+          type="password"
+          className="gaming-input"
+          value={formData.newPassword}
+          onChange={(e) => setFormData({ ...formData, newPassword: e.target.value })}
+          autoComplete="new-password"
+          required
+          minLength={PASSWORD_MIN_LENGTH}
+        />
+        <p className="mt-2 text-sm text-gray-500">{PASSWORD_POLICY_HINT}</p>
+      </div>
+
+      <div>
+        <label className="block text-purple-300 mb-2">Confirm New Password</label>
+        <input
+          type="password"
+          className="gaming-input"
+          value={formData.confirmPassword}
+          onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+          autoComplete="new-password"
+          required
+          minLength={PASSWORD_MIN_LENGTH}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-400">
+        <input
+          type="checkbox"
+          checked={signOutOtherSessions}
+          onChange={(e) => setSignOutOtherSessions(e.target.checked)}
+        />
+        Sign out my other devices
+      </label>
+
+      <button type="submit" className="gaming-button w-full" disabled={isSubmitting}>
+        {isSubmitting ? 'Changing...' : 'Change Password'}
+      </button>
+    </form>
+  );
+}
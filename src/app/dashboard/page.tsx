@@ -2,33 +2,101 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
 import { FaUserAstronaut } from 'react-icons/fa';
+import { fetchAccount, fetchSessionHistory } from '@/utils/auth';
+import type { AccountDetails, SessionEndReason, SessionHistoryEntry } from '@/types';
+import { useSession } from '../SessionProvider';
+import { ChangePasswordForm } from './ChangePasswordForm';
 
+const PLAN_LABELS: Record<string, string> = {
+  '3month': '3 Months',
+  '6month': '6 Months',
+  '1year': '1 Year'
+};
+
+const END_REASON_LABELS: Record<SessionEndReason, string> = {
+  signed_out: 'Signed out',
+  replaced: 'Replaced by a new sign-in',
+  transferred: 'Moved to another device',
+  fingerprint_mismatch: 'Device fingerprint mismatch',
+  admin_kick: 'Ended by admin',
+  password_reset: 'Password reset',
+  password_changed: 'Password changed',
+  token_expired: 'Access expired',
+  user_deleted: 'Account deleted',
+  idle_timeout: 'Timed out (inactive)',
+  max_age: 'Expired'
+};
+
+// Reasons that suggest someone else may be using the account
+const SUSPICIOUS_REASONS: SessionEndReason[] = ['fingerprint_mismatch', 'admin_kick'];
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${days}d ${hours}h ${minutes}m ${seconds}s`;
+};
+
+// The middleware only lets signed-in users with a valid token through, so
+// this page just loads the details. SessionProvider handles sign-out.
 export default function Dashboard() {
   const router = useRouter();
-  const [userData, setUserData] = useState<any>(null);
+  const { session } = useSession();
+  const [account, setAccount] = useState<AccountDetails | null>(null);
+  const [history, setHistory] = useState<SessionHistoryEntry[]>([]);
+  const [now, setNow] = useState(() => Date.now());
 
+  // Reload whenever the session is re-validated (navigation, realtime)
   useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        // In a real application, you'd use proper session management
-        // This is just a simple example
-        if (!userData) {
-          router.push('/signin');
-        }
-      } catch (error) {
-        router.push('/signin');
-      }
-    };
-
-    checkAuth();
-  }, [router, userData]);
-
-  if (!userData) {
-    return null;
+    if (!session?.sessionId) return;
+
+    fetchAccount()
+      .then(setAccount)
+      .catch(error => console.error('Error loading account:', error));
+
+    fetchSessionHistory()
+      .then(setHistory)
+      .catch(error => console.error('Error loading session history:', error));
+  }, [session]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = account?.tokenExpiry ? new Date(account.tokenExpiry).getTime() - now : null;
+  const hasExpired = remaining !== null && remaining <= 0;
+
+  // Go straight to /renew once the token runs out. Re-checking the session
+  // would end it and land on /signin instead.
+  useEffect(() => {
+    if (hasExpired) router.replace('/renew');
+  }, [hasExpired]);
+
+  if (!account) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <div className="w-16 h-16 border-4 border-t-purple-500 border-purple-500/20 rounded-full animate-spin"></div>
+      </main>
+    );
   }
 
+  const isCurrentDeviceBound = account.boundDevice === account.currentDevice;
+
   return (
     <main className="min-h-screen p-8">
       <div className="max-w-4xl mx-auto">
@@ -36,29 +104,118 @@ export default function Dashboard() {
           <div className="mb-8">
             <FaUserAstronaut className="text-6xl text-purple-400 mx-auto mb-4" />
             <h1 className="text-4xl font-bold neon-text mb-2">
-              Welcome to GalaxyKick Lock
+              Welcome, {account.username}
             </h1>
             <p className="text-gray-400">
-              Your gateway to the gaming universe awaits
+              Member since {formatDate(account.createdAt)}
             </p>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="bg-gray-800/50 p-6 rounded-lg">
               <h2 className="text-xl font-bold text-purple-300 mb-2">
-                Account Status
+                Plan
               </h2>
-              <p className="text-gray-400">Active</p>
+              <p className="text-gray-400">
+                {account.plan ? PLAN_LABELS[account.plan] || account.plan : 'Unknown'}
+              </p>
+              <p className="text-gray-500 text-sm">
+                {account.maxDevices} device{account.maxDevices === 1 ? '' : 's'} at a time
+              </p>
             </div>
 
             <div className="bg-gray-800/50 p-6 rounded-lg">
               <h2 className="text-xl font-bold text-purple-300 mb-2">
-                Access Level
+                Access Expires
               </h2>
-              <p className="text-gray-400">Premium Member</p>
+              <p className="text-gray-400">{formatDate(account.tokenExpiry)}</p>
+              {remaining !== null && (
+                <p className={`font-mono text-sm ${hasExpired ? 'text-red-400' : 'text-purple-200'}`}>
+                  {hasExpired ? 'Expired' : formatCountdown(remaining)}
+                </p>
+              )}
+            </div>
+
+            <div className="bg-gray-800/50 p-6 rounded-lg">
+              <h2 className="text-xl font-bold text-purple-300 mb-2">
+                Bound Device
+              </h2>
+              <p className="text-gray-400 font-mono text-xs break-all">
+                {account.boundDevice || 'Not registered'}
+              </p>
+              <p className="text-gray-500 text-sm">
+                {isCurrentDeviceBound ? 'This device' : 'Another device'}
+                {account.hardwareLock && ' · Hardware locked'}
+              </p>
+            </div>
+
+            <div className="bg-gray-800/50 p-6 rounded-lg">
+              <h2 className="text-xl font-bold text-purple-300 mb-2">
+                Current Session
+              </h2>
+              <p className="text-gray-400">Started {formatDate(account.sessionStartedAt)}</p>
+              <p className="text-gray-500 text-sm">
+                Last active {formatDate(account.lastActiveAt)}
+              </p>
             </div>
           </div>
         </div>
+
+        <div className="gaming-card mt-8">
+          <h2 className="text-xl font-bold text-purple-300 mb-2">
+            Recent Sessions
+          </h2>
+          <p className="text-gray-500 text-sm mb-4">
+            Don&apos;t recognise a device? Change your password and sign out your other devices.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="text-purple-300">
+                  <th className="px-4 py-2">Device</th>
+                  <th className="px-4 py-2">Started</th>
+                  <th className="px-4 py-2">Last Active</th>
+                  <th className="px-4 py-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map((entry) => (
+                  <tr key={`${entry.deviceFingerprint}-${entry.createdAt}`} className="border-t border-gray-800">
+                    <td className="px-4 py-2 font-mono text-xs text-gray-400 break-all">
+                      {entry.deviceFingerprint}
+                      {entry.deviceFingerprint === account.currentDevice && (
+                        <span className="block text-purple-300 font-sans">This device</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(entry.createdAt)}</td>
+                    <td className="px-4 py-2 text-gray-400 whitespace-nowrap">{formatDate(entry.lastActive)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {entry.isActive ? (
+                        <span className="text-green-400">{entry.isCurrent ? 'Current session' : 'Active'}</span>
+                      ) : (
+                        <span className={
+                          entry.endReason && SUSPICIOUS_REASONS.includes(entry.endReason)
+                            ? 'text-red-400'
+                            : 'text-gray-500'
+                        }>
+                          {entry.endReason ? END_REASON_LABELS[entry.endReason] || entry.endReason : 'Ended'}
+                          {entry.endedAt && ` · ${formatDate(entry.endedAt)}`}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="gaming-card mt-8 max-w-md mx-auto">
+          <h2 className="text-xl font-bold text-purple-300 mb-4">
+            Change Password
+          </h2>
+          <ChangePasswordForm username={account.username} />
+        </div>
       </div>
 
       <div className="absolute inset-0 -z-10">
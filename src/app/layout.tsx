@@ -2,6 +2,7 @@ import './globals.css';
 import { Inter } from 'next/font/google';
 import { Toaster } from 'react-hot-toast';
 import { SessionProvider } from './SessionProvider';
+import { ExpiryBanner } from './ExpiryBanner';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -19,6 +20,7 @@ export default function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <SessionProvider>
+          <ExpiryBanner />
           {children}
           <Toaster
             position="top-right"
@@ -0,0 +1,75 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { FaArrowLeft, FaHourglassEnd, FaHourglassHalf, FaSignOutAlt } from 'react-icons/fa';
+import { signOut } from '@/utils/auth';
+import { useSession } from '../SessionProvider';
+
+export default function Renew() {
+  const router = useRouter();
+  const { session, daysRemaining, refreshSession } = useSession();
+
+  const handleSignOut = async () => {
+    await signOut();
+    await refreshSession();
+    router.replace('/signin');
+  };
+
+  // Reached from the expiry banner while access is still valid
+  if (session?.tokenExpiry && daysRemaining) {
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center p-4">
+        <div className="gaming-card max-w-md w-full mx-auto space-y-8 text-center">
+          <div>
+            <FaHourglassHalf className="text-5xl text-purple-400 mx-auto mb-4" />
+            <h1 className="text-3xl font-bold text-purple-400 mb-2">Renew Access</h1>
+            <p className="text-gray-400">
+              Your access expires on {new Date(session.tokenExpiry).toLocaleString()}
+              {' '}({daysRemaining} day{daysRemaining === 1 ? '' : 's'} left). Please contact
+              admin to renew before then to avoid being signed out.
+            </p>
+          </div>
+
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="gaming-button w-full flex items-center justify-center gap-2"
+          >
+            <FaArrowLeft />
+            Back to Dashboard
+          </button>
+        </div>
+
+        <div className="absolute inset-0 -z-10">
+          <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-purple-900/20 via-black to-black"></div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center p-4">
+      <div className="gaming-card max-w-md w-full mx-auto space-y-8 text-center">
+        <div>
+          <FaHourglassEnd className="text-5xl text-purple-400 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-purple-400 mb-2">Access Expired</h1>
+          <p className="text-gray-400">
+            Your access token has expired or been deactivated. Please contact admin
+            to renew your access, then sign in again.
+          </p>
+        </div>
+
+        <button
+          onClick={handleSignOut}
+          className="gaming-button w-full flex items-center justify-center gap-2"
+        >
+          <FaSignOutAlt />
+          Sign Out
+        </button>
+      </div>
+
+      <div className="absolute inset-0 -z-10">
+        <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-purple-900/20 via-black to-black"></div>
+      </div>
+    </main>
+  );
+}
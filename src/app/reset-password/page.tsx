@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { FaUserAstronaut, FaKey, FaLock } from 'react-icons/fa';
+import toast from 'react-hot-toast';
+import { resetPassword } from '@/utils/auth';
+import { resetCodePattern, validateResetCode } from '@/lib/resetCode';
+import { PASSWORD_MIN_LENGTH, PASSWORD_POLICY_HINT, checkPasswordPolicy } from '@/lib/passwordPolicy';
+
+// Users who forgot their password ask admin for a reset code and set a new
+// password here. Every device the account was signed in on is signed out.
+export default function ResetPassword() {
+  const router = useRouter();
+  const [formData, setFormData] = useState({
+    username: '',
+    code: '',
+    password: '',
+    confirmPassword: '',
+  });
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      if (!formData.username || !formData.code || !formData.password) {
+        throw new Error('Please fill in all fields');
+      }
+
+      const policyError = checkPasswordPolicy(formData.password, formData.username);
+      if (policyError) {
+        throw new Error(policyError);
+      }
+
+      if (formData.password !== formData.confirmPassword) {
+        throw new Error('Passwords do not match');
+      }
+
+      // Catch typos locally instead of spending an attempt
+      const codeCheck = validateResetCode(formData.code);
+      if (!codeCheck.valid) {
+        throw new Error(codeCheck.error || 'Invalid reset code');
+      }
+
+      await resetPassword(formData.username, codeCheck.code, formData.password);
+
+      toast.success('Password updated! Please sign in with your new password.', {
+        duration: 5000,
+        icon: '🚀',
+        style: {
+          background: 'rgba(139, 92, 246, 0.9)',
+          color: '#fff',
+          padding: '16px',
+          borderRadius: '8px',
+          backdropFilter: 'blur(8px)',
+        },
+      });
+
+      router.push('/signin');
+    } catch (error: any) {
+      console.error('Password reset error:', error);
+      toast.error(error.message || 'Failed to reset password', {
+        duration: 5000,
+        icon: '⚠️',
+        style: {
+          background: 'rgba(239, 68, 68, 0.9)',
+          color: '#fff',
+          padding: '16px',
+          borderRadius: '8px',
+          backdropFilter: 'blur(8px)',
+        },
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-black p-4">
+      <div className="gaming-card max-w-md w-full mx-auto space-y-8">
+        <div>
+          <h2 className="text-3xl font-bold text-center text-purple-400 mb-2">
+            Reset Password
+          </h2>
+          <p className="text-center text-gray-400">
+            Enter the reset code you received from admin
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label className="flex items-center gap-2 text-purple-300 mb-2">
+              <FaUserAstronaut />
+              Username
+            </label>
+            <input
+              type="text"
+              className="gaming-input"
+              value={formData.username}
+              onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-purple-300 mb-2">
+              <FaKey />
+              Reset Code
+            </label>
+            <input
+              type="text"
+              className="gaming-input"
+              value={formData.code}
+              onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+              placeholder={resetCodePattern()}
+              autoComplete="off"
+              spellCheck={false}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-purple-300 mb-2">
+              <FaLock />
+              New Password
+            </label>
+            <input
+              type="password"
+              className="gaming-input"
+              value={formData.password}
+              onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+              autoComplete="new-password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+            />
+            <p className="mt-2 text-sm text-gray-500">{PASSWORD_POLICY_HINT}</p>
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-purple-300 mb-2">
+              <FaLock />
+              Confirm New Password
+            </label>
+            <input
+              type="password"
+              className="gaming-input"
+              value={formData.confirmPassword}
+              onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+              autoComplete="new-password"
+              required
+              minLength={PASSWORD_MIN_LENGTH}
+            />
+          </div>
+
+          <button
+            type="submit"
+            className="w-full gaming-button flex items-center justify-center gap-2"
+            disabled={isLoading}
+          >
+            {isLoading ? 'Resetting...' : 'Reset Password'}
+          </button>
+        </form>
+
+        <p className="text-center text-gray-400">
+          Remembered it?{' '}
+          <Link href="/signin" className="text-purple-400 hover:text-purple-300">
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </main>
+  );
+}
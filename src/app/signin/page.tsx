@@ -2,9 +2,11 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { FaUserAstronaut, FaLock, FaSignOutAlt } from 'react-icons/fa';
+import { FaUserAstronaut, FaLock, FaSignOutAlt, FaExchangeAlt } from 'react-icons/fa';
 import toast from 'react-hot-toast';
-import { signIn, signOut, getSession } from '@/utils/auth';
+import { signIn, signOut, transferDevice } from '@/utils/auth';
+import { ApiError } from '@/utils/api';
+import { useSession } from '../SessionProvider';
 
 export default function SignIn() {
   const [formData, setFormData] = useState({
@@ -14,16 +16,19 @@ export default function SignIn() {
   const [isLoggedIn, setIsLoggedIn] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [tokenExpiry, setTokenExpiry] = useState<string | null>(null);
+  // Set when the account is signed in elsewhere and can be moved here instead
+  const [offerTransfer, setOfferTransfer] = useState(false);
+  const { session, isLoading: isSessionLoading, refreshSession } = useSession();
 
   useEffect(() => {
-    const session = getSession();
+    if (isSessionLoading) return;
     if (session?.isLoggedIn) {
       setIsLoggedIn(true);
       setFormData(prev => ({ ...prev, username: session.username }));
       setTokenExpiry(session.tokenExpiry || null);
     }
     setIsLoading(false);
-  }, []);
+  }, [session, isSessionLoading]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -34,12 +39,16 @@ export default function SignIn() {
       }
       
       console.log('Attempting sign in with:', { username: formData.username });
-      const user = await signIn(formData.username, formData.password);
+      const user = offerTransfer
+        ? await transferDevice(formData.username, formData.password)
+        : await signIn(formData.username, formData.password);
       console.log('Sign in response:', user);
       
       if (user?.isLoggedIn) {
+        setOfferTransfer(false);
         setIsLoggedIn(true);
         setTokenExpiry(user.tokenExpiry || null);
+        await refreshSession();
         toast.success(`Welcome ${formData.username} to Galaxy KickLock Universe!`, {
           duration: 5000,
           icon: '🚀',
@@ -56,6 +65,11 @@ export default function SignIn() {
       }
     } catch (error: any) {
       console.error('Sign in error:', error);
+      if (error instanceof ApiError && error.code === 'ACTIVE_ON_OTHER_DEVICE') {
+        setOfferTransfer(true);
+      } else if (error instanceof ApiError && error.code === 'DEVICE_LOCKED') {
+        setOfferTransfer(false);
+      }
       if (error.message.includes('token')) {
         toast.error('Token-related error: ' + error.message, {
           duration: 5000,
@@ -89,6 +103,7 @@ export default function SignIn() {
 
   const handleSignOut = async () => {
     await signOut();
+    await refreshSession();
     setIsLoggedIn(false);
     setFormData({ username: '', password: '' });
     setTokenExpiry(null);
@@ -161,7 +176,10 @@ export default function SignIn() {
                 type="text"
                 className="gaming-input"
                 value={formData.username}
-                onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                onChange={(e) => {
+                  setFormData({ ...formData, username: e.target.value });
+                  setOfferTransfer(false);
+                }}
                 placeholder="Enter your username"
                 required
               />
@@ -182,6 +200,27 @@ export default function SignIn() {
               />
             </div>
 
+            {offerTransfer && (
+              <div className="p-4 rounded-lg bg-purple-900/30 border border-purple-500/30 text-sm text-purple-200 space-y-2">
+                <p className="flex items-center gap-2 font-semibold text-purple-300">
+                  <FaExchangeAlt />
+                  Transfer to this device?
+                </p>
+                <p>
+                  Your account is signed in on every device your plan allows. Enter your password
+                  again to sign out the device you used least recently and use this one instead.
+                  Transfers are limited, so only do this if you have moved to a new PC.
+                </p>
+                <button
+                  type="button"
+                  className="text-purple-400 hover:text-purple-300 underline"
+                  onClick={() => setOfferTransfer(false)}
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
             <button 
               type="submit" 
               className="gaming-button w-full relative group"
@@ -192,7 +231,7 @@ export default function SignIn() {
                   <div className="w-6 h-6 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                 </div>
               ) : (
-                <span>Sign In</span>
+                <span>{offerTransfer ? 'Transfer to this device' : 'Sign In'}</span>
               )}
             </button>
           </form>
@@ -204,6 +243,12 @@ export default function SignIn() {
                 Sign up
               </Link>
             </p>
+            <p className="text-gray-400 mt-2">
+              Got a reset code from admin?{' '}
+              <Link href="/reset-password" className="text-purple-400 hover:text-purple-300">
+                Reset password
+              </Link>
+            </p>
           </div>
         </div>
       )}
@@ -5,6 +5,18 @@ import { useRouter } from 'next/navigation';
 import { FaUserAstronaut, FaKey, FaLock } from 'react-icons/fa';
 import toast from 'react-hot-toast';
 import { signUp } from '@/utils/auth';
+import { ApiError } from '@/utils/api';
+import { licenseKeyPattern, validateLicenseKey } from '@/lib/licenseKey';
+import type { SignUpErrorCode } from '@/types';
+
+// Which field a server error belongs to, so the message can sit next to it
+const FIELD_FOR_CODE: Partial<Record<SignUpErrorCode, 'username' | 'token'>> = {
+  USERNAME_TAKEN: 'username',
+  INVALID_TOKEN_FORMAT: 'token',
+  TOKEN_NOT_FOUND: 'token',
+  TOKEN_ALREADY_USED: 'token',
+  TOKEN_EXPIRED: 'token'
+};
 
 export default function SignUp() {
   const router = useRouter();
@@ -14,21 +26,29 @@ export default function SignUp() {
     token: '',
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<{ username?: string; token?: string }>({});
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setFieldErrors({});
 
     try {
       if (!formData.username || !formData.password || !formData.token) {
         throw new Error('Please fill in all fields');
       }
 
+      // Catch typos locally instead of round-tripping to the server
+      const tokenCheck = validateLicenseKey(formData.token);
+      if (!tokenCheck.valid) {
+        throw new ApiError(tokenCheck.error || 'Invalid token', 400, 'INVALID_TOKEN_FORMAT');
+      }
+
       // Use the signUp function from auth.ts
       const { user, error } = await signUp(
         formData.username,
         formData.password,
-        formData.token
+        tokenCheck.key
       );
 
       if (error) throw error;
@@ -48,6 +68,14 @@ export default function SignUp() {
       router.push('/signin');
     } catch (error: any) {
       console.error('Sign up error:', error);
+
+      const field = error instanceof ApiError && error.code
+        ? FIELD_FOR_CODE[error.code as SignUpErrorCode]
+        : undefined;
+      if (field) {
+        setFieldErrors({ [field]: error.message });
+      }
+
       toast.error(error.message || 'Failed to sign up', {
         duration: 5000,
         icon: '⚠️',
@@ -96,15 +124,19 @@ export default function SignUp() {
               type="text"
               className="gaming-input"
               value={formData.username}
-              onChange={(e) =>
-                setFormData({ ...formData, username: e.target.value })
-              }
+              onChange={(e) => {
+                setFormData({ ...formData, username: e.target.value });
+                setFieldErrors({ ...fieldErrors, username: undefined });
+              }}
               required
               minLength={3}
               maxLength={20}
               pattern="[a-zA-Z0-9_-]+"
               title="Username can only contain letters, numbers, underscores, and hyphens"
             />
+            {fieldErrors.username && (
+              <p className="mt-2 text-sm text-red-400">{fieldErrors.username}</p>
+            )}
           </div>
 
           <div>
@@ -133,11 +165,18 @@ export default function SignUp() {
               type="text"
               className="gaming-input"
               value={formData.token}
-              onChange={(e) =>
-                setFormData({ ...formData, token: e.target.value })
-              }
+              onChange={(e) => {
+                setFormData({ ...formData, token: e.target.value });
+                setFieldErrors({ ...fieldErrors, token: undefined });
+              }}
+              placeholder={licenseKeyPattern()}
+              autoComplete="off"
+              spellCheck={false}
               required
             />
+            {fieldErrors.token && (
+              <p className="mt-2 text-sm text-red-400">{fieldErrors.token}</p>
+            )}
           </div>
 
           <button
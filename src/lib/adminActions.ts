@@ -0,0 +1,644 @@
+import { adminSupabase } from './supabaseAdmin';
+import { generateLicenseKey } from './licenseKey';
+import { bindUserDevice } from './deviceMatch';
+import { generateResetCode, hashResetCode } from './resetCode';
+import { endSession } from './auth';
+import { recordAudit } from './auditLog';
+import { AdminValidationError } from './adminAuth';
+import { hashPassword } from './password';
+import { checkPasswordPolicy } from './passwordPolicy';
+import type { AdminAccount, AdminRole, AdminSession } from '@/types';
+
+// Privileged data operations behind the /api/admin route handlers. Callers
+// are expected to have checked the admin's permissions already. Every
+// mutation takes the acting admin and writes an audit_log entry.
+
+export function computeExpiryDate(duration: string): Date {
+  const expiryDate = new Date();
+  switch (duration) {
+    case '3month':
+      expiryDate.setMonth(expiryDate.getMonth() + 3);
+      break;
+    case '6month':
+      expiryDate.setMonth(expiryDate.getMonth() + 6);
+      break;
+    case '1year':
+      expiryDate.setFullYear(expiryDate.getFullYear() + 1);
+      break;
+    default:
+      throw new AdminValidationError(`Unknown token duration: ${duration}`);
+  }
+  return expiryDate;
+}
+
+// Upper bound on the plans an admin can issue
+export const MAX_DEVICES_PER_TOKEN = 5;
+
+export async function fetchAdminData() {
+  const { data: usersData, error: usersError } = await adminSupabase
+    .from('users')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (usersError) throw usersError;
+
+  const { data: tokensData, error: tokensError } = await adminSupabase
+    .from('tokens')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (tokensError) throw tokensError;
+
+  const { data: attemptsData, error: attemptsError } = await adminSupabase
+    .from('login_attempts')
+    .select('key, failed_count, locked_until')
+    .eq('scope', 'username');
+
+  if (attemptsError) throw attemptsError;
+
+  const { data: sessionsData, error: sessionsError } = await adminSupabase
+    .from('sessions')
+    .select('user_id, device_fingerprint')
+    .eq('is_active', true);
+
+  if (sessionsError) throw sessionsError;
+
+  // Never send password hashes to the browser
+  const users = (usersData || []).map(({ password, device_components, ...user }) => {
+    const attempts = attemptsData?.find(a => a.key === user.username.toLowerCase());
+    return {
+      ...user,
+      failed_attempts: attempts?.failed_count || 0,
+      locked_until: attempts?.locked_until || null,
+      active_devices: (sessionsData || [])
+        .filter(session => session.user_id === user.id && session.device_fingerprint)
+        .map(session => session.device_fingerprint as string)
+    };
+  });
+
+  // Mark tokens as used if they exist in users table
+  const tokens = (tokensData || []).map(token => ({
+    ...token,
+    is_used: users.some(user => user.token === token.token),
+    used_by: users.find(user => user.token === token.token)?.username
+  }));
+
+  return { users, tokens };
+}
+
+export async function generateToken(admin: AdminSession, duration: string, maxDevices: number = 1) {
+  const expiryDate = computeExpiryDate(duration);
+  if (!Number.isInteger(maxDevices) || maxDevices < 1 || maxDevices > MAX_DEVICES_PER_TOKEN) {
+    throw new AdminValidationError(`Devices per token must be between 1 and ${MAX_DEVICES_PER_TOKEN}`);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('tokens')
+    .insert([
+      {
+        token: generateLicenseKey(),
+        duration,
+        expiry_date: expiryDate.toISOString(),
+        max_devices: maxDevices,
+        is_used: false,
+        created_at: new Date().toISOString()
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await recordAudit(admin, 'token.generate', { type: 'token', id: data.id, label: data.token }, null, data);
+  return data;
+}
+
+export async function deleteUser(admin: AdminSession, userId: string) {
+  // First get the user's token
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  // If user has a token, delete it from tokens table
+  if (userData?.token) {
+    const { error: tokenError } = await adminSupabase
+      .from('tokens')
+      .delete()
+      .eq('token', userData.token);
+
+    if (tokenError) throw tokenError;
+  }
+
+  // sessions has no foreign key to users, so end them here. The broadcast
+  // trigger signs out any tab that is still open.
+  const { error: sessionsError } = await adminSupabase
+    .from('sessions')
+    .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: 'user_deleted' })
+    .eq('user_id', userId)
+    .eq('is_active', true);
+
+  if (sessionsError) throw sessionsError;
+
+  // Then delete the user
+  const { error: deleteError } = await adminSupabase
+    .from('users')
+    .delete()
+    .eq('id', userId);
+
+  if (deleteError) throw deleteError;
+
+  const { password, device_components, ...before } = userData;
+  await recordAudit(admin, 'user.delete', { type: 'user', id: userId, label: userData.username }, before);
+}
+
+export async function deleteUserToken(admin: AdminSession, userId: string) {
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('username, token')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+  if (!userData?.token) return;
+
+  // Update user's token to empty string
+  const { error: updateError } = await adminSupabase
+    .from('users')
+    .update({ token: '' })
+    .eq('id', userId);
+
+  if (updateError) throw updateError;
+
+  // Then delete the token from tokens table
+  const { error: tokenError } = await adminSupabase
+    .from('tokens')
+    .delete()
+    .eq('token', userData.token);
+
+  if (tokenError) throw tokenError;
+
+  await recordAudit(
+    admin,
+    'user.token_revoke',
+    { type: 'user', id: userId, label: userData.username },
+    { token: userData.token },
+    { token: '' }
+  );
+}
+
+export async function deleteUnusedToken(admin: AdminSession, tokenId: string) {
+  const { data, error } = await adminSupabase
+    .from('tokens')
+    .delete()
+    .eq('id', tokenId)
+    .eq('is_used', false)
+    .select();
+
+  if (error) throw error;
+
+  const deleted = data?.[0];
+  if (deleted) {
+    await recordAudit(admin, 'token.delete', { type: 'token', id: tokenId, label: deleted.token }, deleted);
+  }
+}
+
+export async function renewToken(admin: AdminSession, userId: string, duration: string) {
+  const expiryDate = computeExpiryDate(duration);
+  const newToken = generateLicenseKey();
+
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('username, token')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  // The renewed token keeps the plan's device limit
+  let maxDevices = 1;
+  let oldToken: any = null;
+  if (userData?.token) {
+    const { data } = await adminSupabase
+      .from('tokens')
+      .select('token, duration, expiry_date, max_devices')
+      .eq('token', userData.token)
+      .single();
+
+    oldToken = data;
+    maxDevices = oldToken?.max_devices || 1;
+  }
+
+  // Delete old token if it exists
+  if (userData?.token) {
+    const { error: deleteError } = await adminSupabase
+      .from('tokens')
+      .delete()
+      .eq('token', userData.token);
+
+    if (deleteError) throw deleteError;
+  }
+
+  // Create new token
+  const { error: tokenError } = await adminSupabase
+    .from('tokens')
+    .insert([
+      {
+        token: newToken,
+        duration,
+        expiry_date: expiryDate.toISOString(),
+        max_devices: maxDevices,
+        is_used: true,
+        created_at: new Date().toISOString()
+      }
+    ]);
+
+  if (tokenError) throw tokenError;
+
+  // Update user with new token
+  const { error: updateError } = await adminSupabase
+    .from('users')
+    .update({ token: newToken })
+    .eq('id', userId);
+
+  if (updateError) throw updateError;
+
+  await recordAudit(
+    admin,
+    'user.token_renew',
+    { type: 'user', id: userId, label: userData.username },
+    oldToken,
+    { token: newToken, duration, expiry_date: expiryDate.toISOString(), max_devices: maxDevices }
+  );
+}
+
+// Clears the lockout counters for the user's account and bound device
+export async function unlockUser(admin: AdminSession, userId: string) {
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('username, device_fingerprint')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  const { error: usernameError } = await adminSupabase
+    .from('login_attempts')
+    .delete()
+    .eq('scope', 'username')
+    .eq('key', userData.username.toLowerCase());
+
+  if (usernameError) throw usernameError;
+
+  if (userData.device_fingerprint) {
+    const { error: fingerprintError } = await adminSupabase
+      .from('login_attempts')
+      .delete()
+      .eq('scope', 'fingerprint')
+      .eq('key', userData.device_fingerprint.toLowerCase());
+
+    if (fingerprintError) throw fingerprintError;
+  }
+
+  await recordAudit(admin, 'user.unlock', { type: 'user', id: userId, label: userData.username });
+}
+
+// Lets the user's next self-service device transfer through even if they
+// have used up their transfers for the current window.
+export async function allowDeviceTransfer(admin: AdminSession, userId: string) {
+  const { data, error } = await adminSupabase
+    .from('users')
+    .update({ transfer_override: true })
+    .eq('id', userId)
+    .select('username')
+    .single();
+
+  if (error) throw error;
+
+  await recordAudit(
+    admin,
+    'user.allow_transfer',
+    { type: 'user', id: userId, label: data.username },
+    { transfer_override: false },
+    { transfer_override: true }
+  );
+}
+
+// How long an admin-issued password reset code stays usable
+const PASSWORD_RESET_CODE_MINUTES = Number(process.env.PASSWORD_RESET_CODE_MINUTES) || 30;
+
+// Issues a single-use reset code for the user. The plain code is only
+// returned here, for the admin to pass on; earlier unused codes stop working.
+export async function createPasswordResetCode(admin: AdminSession, userId: string) {
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('username')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  const code = generateResetCode();
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_CODE_MINUTES * 60 * 1000);
+
+  const { error: revokeError } = await adminSupabase
+    .from('password_resets')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('used_at', null);
+
+  if (revokeError) throw revokeError;
+
+  const { error } = await adminSupabase
+    .from('password_resets')
+    .insert([{
+      user_id: userId,
+      code_hash: await hashResetCode(code),
+      created_by: admin.adminId,
+      created_by_username: admin.username,
+      expires_at: expiresAt.toISOString()
+    }]);
+
+  if (error) throw error;
+
+  // Never put the code itself in the log
+  await recordAudit(admin, 'user.reset_code', { type: 'user', id: userId, label: userData.username }, null, {
+    expires_at: expiresAt.toISOString()
+  });
+
+  return { code, expiresAt: expiresAt.toISOString() };
+}
+
+export type DeviceBindingAction = 'lock' | 'unlock' | 'reset' | 'rebind';
+
+// Changes how a user is tied to their device and records who did it and why.
+// Under hardware lock, sessions on devices other than the new binding end.
+export async function updateDeviceBinding(
+  admin: AdminSession,
+  userId: string,
+  action: DeviceBindingAction,
+  reason: string,
+  fingerprint?: string
+) {
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('username, device_fingerprint, hardware_lock')
+    .eq('id', userId)
+    .single();
+
+  if (userError) throw userError;
+
+  let newFingerprint: string | null = userData.device_fingerprint;
+  let hardwareLock: boolean = !!userData.hardware_lock;
+
+  switch (action) {
+    case 'lock':
+    case 'unlock': {
+      hardwareLock = action === 'lock';
+      const { error } = await adminSupabase
+        .from('users')
+        .update({ hardware_lock: hardwareLock })
+        .eq('id', userId);
+
+      if (error) throw error;
+      break;
+    }
+    case 'reset':
+      newFingerprint = null;
+      await bindUserDevice(userId, null, null);
+      break;
+    case 'rebind': {
+      if (!fingerprint) throw new AdminValidationError('A device ID is required to re-bind');
+      newFingerprint = fingerprint;
+
+      // Reuse the signals from the session on that device, if there is one
+      const { data: session } = await adminSupabase
+        .from('sessions')
+        .select('device_components')
+        .eq('user_id', userId)
+        .eq('device_fingerprint', fingerprint)
+        .eq('is_active', true)
+        .maybeSingle();
+
+      await bindUserDevice(userId, fingerprint, session?.device_components || null);
+      break;
+    }
+  }
+
+  const { error: logError } = await adminSupabase
+    .from('device_binding_changes')
+    .insert([{
+      user_id: userId,
+      admin_id: admin.adminId,
+      admin_username: admin.username,
+      action,
+      old_fingerprint: userData.device_fingerprint,
+      new_fingerprint: newFingerprint,
+      reason
+    }]);
+
+  if (logError) throw logError;
+
+  await recordAudit(
+    admin,
+    `device.${action}`,
+    { type: 'user', id: userId, label: userData.username },
+    { device_fingerprint: userData.device_fingerprint, hardware_lock: !!userData.hardware_lock },
+    { device_fingerprint: newFingerprint, hardware_lock: hardwareLock, reason }
+  );
+
+  if (hardwareLock && action !== 'unlock') {
+    let query = adminSupabase
+      .from('sessions')
+      .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: 'admin_kick' })
+      .eq('user_id', userId)
+      .eq('is_active', true);
+
+    if (newFingerprint) {
+      query = query.neq('device_fingerprint', newFingerprint);
+    }
+
+    const { error: endError } = await query;
+    if (endError) throw endError;
+  }
+}
+
+// Every active user session with its owner, newest first
+export async function fetchActiveSessions() {
+  const { data, error } = await adminSupabase
+    .from('sessions')
+    .select('session_id, user_id, device_fingerprint, created_at, last_active, users(username)')
+    .eq('is_active', true)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(({ users, ...session }: any) => ({
+    ...session,
+    username: (Array.isArray(users) ? users[0] : users)?.username || null
+  }));
+}
+
+// The browser on the other end is signed out through realtime
+export async function forceLogout(admin: AdminSession, sessionId: string) {
+  const { data: session, error } = await adminSupabase
+    .from('sessions')
+    .select('user_id, device_fingerprint, users(username)')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (error) throw error;
+
+  await endSession(sessionId, undefined, 'admin_kick');
+
+  const owner: any = Array.isArray(session.users) ? session.users[0] : session.users;
+  await recordAudit(
+    admin,
+    'session.force_logout',
+    { type: 'session', id: sessionId, label: owner?.username },
+    { user_id: session.user_id, device_fingerprint: session.device_fingerprint, is_active: true },
+    { is_active: false }
+  );
+}
+
+export async function kickAllSessions(admin: AdminSession, userId: string) {
+  // maybeSingle: sessions left behind by a deleted account can still be ended
+  const { data: user, error: userError } = await adminSupabase
+    .from('users')
+    .select('username')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (userError) throw userError;
+
+  const { data, error } = await adminSupabase
+    .from('sessions')
+    .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: 'admin_kick' })
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .select('device_fingerprint');
+
+  if (error) throw error;
+
+  await recordAudit(admin, 'session.kick_all', { type: 'user', id: userId, label: user?.username }, {
+    active_devices: (data || []).map(session => session.device_fingerprint)
+  }, { active_devices: [] });
+}
+
+// Users whose token runs out within the next `days` days, soonest first
+export async function fetchExpiringUsers(days: number) {
+  const now = new Date();
+  const until = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  const { data: tokensData, error: tokensError } = await adminSupabase
+    .from('tokens')
+    .select('token, duration, expiry_date')
+    .is('expired_at', null)
+    .gt('expiry_date', now.toISOString())
+    .lte('expiry_date', until.toISOString())
+    .order('expiry_date', { ascending: true });
+
+  if (tokensError) throw tokensError;
+  if (!tokensData?.length) return [];
+
+  const { data: usersData, error: usersError } = await adminSupabase
+    .from('users')
+    .select('id, username, token')
+    .in('token', tokensData.map(token => token.token));
+
+  if (usersError) throw usersError;
+
+  // Unredeemed tokens have nobody to warn
+  return tokensData.flatMap(token => {
+    const user = usersData?.find(u => u.token === token.token);
+    return user
+      ? [{ user_id: user.id, username: user.username, ...token }]
+      : [];
+  });
+}
+
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'manager', 'support'];
+
+export async function fetchAdmins(): Promise<AdminAccount[]> {
+  const { data, error } = await adminSupabase
+    .from('admins')
+    .select('id, username, role, is_active, totp_enabled, created_at')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(account => ({ ...account, totp_enabled: !!account.totp_enabled }));
+}
+
+// The env bootstrap only ever creates the first owner; every other admin
+// account is created here by an owner.
+export async function createAdmin(admin: AdminSession, username: string, password: string, role: AdminRole) {
+  if (!username) {
+    throw new AdminValidationError('Please enter a username');
+  }
+
+  if (!ADMIN_ROLES.includes(role)) {
+    throw new AdminValidationError(`Unknown role: ${role}`);
+  }
+
+  const policyError = checkPasswordPolicy(password, username);
+  if (policyError) {
+    throw new AdminValidationError(policyError);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('admins')
+    .insert([{ username, password: await hashPassword(password), role }])
+    .select('id, username, role, is_active, totp_enabled, created_at')
+    .single();
+
+  if (error) {
+    // unique_violation on admins.username
+    if (error.code === '23505') {
+      throw new AdminValidationError('That username is already taken');
+    }
+    throw error;
+  }
+
+  await recordAudit(admin, 'admin.create', { type: 'admin', id: data.id, label: data.username }, null, {
+    username: data.username,
+    role: data.role
+  });
+  return data;
+}
+
+// Disabling also ends the account's admin sessions, so it takes effect at once
+export async function setAdminActive(admin: AdminSession, adminId: string, isActive: boolean) {
+  if (adminId === admin.adminId && !isActive) {
+    throw new AdminValidationError('You cannot disable your own account');
+  }
+
+  const { data, error } = await adminSupabase
+    .from('admins')
+    .update({ is_active: isActive })
+    .eq('id', adminId)
+    .select('username')
+    .single();
+
+  if (error) throw error;
+
+  if (!isActive) {
+    const { error: sessionsError } = await adminSupabase
+      .from('admin_sessions')
+      .update({ is_active: false })
+      .eq('admin_id', adminId)
+      .eq('is_active', true);
+
+    if (sessionsError) throw sessionsError;
+  }
+
+  await recordAudit(
+    admin,
+    isActive ? 'admin.enable' : 'admin.disable',
+    { type: 'admin', id: adminId, label: data.username },
+    { is_active: !isActive },
+    { is_active: isActive }
+  );
+}
@@ -0,0 +1,239 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { v4 as uuidv4 } from 'uuid';
+import { adminSupabase } from './supabaseAdmin';
+import { hashPassword, needsRehash, verifyPassword } from './password';
+import { hasPermission } from './adminRoles';
+import { ADMIN_SESSION_COOKIE, verifySessionCookie } from './sessionCookie';
+import {
+  LoginLockedError,
+  assertNotLocked,
+  clearLoginFailures,
+  loginLockedResponse,
+  recordLoginFailure,
+  throttleKeys
+} from './loginThrottle';
+import type { AdminPermission } from './adminRoles';
+import type { AdminSession } from '@/types';
+
+export const ADMIN_SESSION_HOURS = 12;
+
+// While false, TOTP is optional; once every admin has enrolled set
+// ADMIN_TOTP_REQUIRED=true to force enrollment on the next sign-in.
+export function isTotpRequired(): boolean {
+  return process.env.ADMIN_TOTP_REQUIRED === 'true';
+}
+
+export class AdminAuthError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'AdminAuthError';
+  }
+}
+
+// Bad input from the admin panel, as opposed to a permission or session problem
+export class AdminValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdminValidationError';
+  }
+}
+
+// The very first owner account is created from ADMIN_USERNAME/ADMIN_PASSWORD
+// when the admins table is still empty. After that the env vars are ignored
+// and owners add further accounts from the Admins tab (createAdmin).
+async function bootstrapOwner(username: string, password: string) {
+  if (username !== process.env.ADMIN_USERNAME || password !== process.env.ADMIN_PASSWORD) {
+    return null;
+  }
+
+  const { count, error: countError } = await adminSupabase
+    .from('admins')
+    .select('id', { count: 'exact', head: true });
+
+  if (countError || count !== 0) {
+    return null;
+  }
+
+  const { data: owner, error: createError } = await adminSupabase
+    .from('admins')
+    .insert([{
+      username,
+      password: await hashPassword(password),
+      role: 'owner'
+    }])
+    .select()
+    .single();
+
+  if (createError) {
+    console.error('Error creating owner account:', createError);
+    return null;
+  }
+
+  console.log('Created initial owner account:', username);
+  return owner;
+}
+
+export async function signInAdmin(
+  username: string,
+  password: string,
+  ipAddress?: string | null
+): Promise<AdminSession> {
+  console.log('Starting admin sign in for username:', username);
+
+  const throttle = throttleKeys({ admin: username, ip: ipAddress });
+  await assertNotLocked(throttle);
+
+  let { data: admin, error: adminError } = await adminSupabase
+    .from('admins')
+    .select('*')
+    .eq('username', username)
+    .single();
+
+  if (adminError || !admin) {
+    admin = await bootstrapOwner(username, password);
+    if (!admin) {
+      await recordLoginFailure(throttle);
+      throw new AdminAuthError('Invalid username or password');
+    }
+  }
+
+  if (!admin.is_active || !(await verifyPassword(password, admin.password))) {
+    await recordLoginFailure(throttle);
+    throw new AdminAuthError('Invalid username or password');
+  }
+
+  if (needsRehash(admin.password)) {
+    await adminSupabase
+      .from('admins')
+      .update({ password: await hashPassword(password) })
+      .eq('id', admin.id);
+  }
+
+  const sessionId = uuidv4();
+  const expiresAt = new Date(Date.now() + ADMIN_SESSION_HOURS * 60 * 60 * 1000).toISOString();
+  const totpEnabled = !!admin.totp_enabled;
+  const mfaVerified = !totpEnabled && !isTotpRequired();
+
+  // With a second factor pending, the counter is only cleared once the code
+  // is verified, so knowing the password doesn't reset code guessing.
+  if (mfaVerified) {
+    await clearLoginFailures(throttle);
+  }
+
+  const { error: sessionError } = await adminSupabase
+    .from('admin_sessions')
+    .insert([{
+      admin_id: admin.id,
+      session_id: sessionId,
+      is_active: true,
+      mfa_verified: mfaVerified,
+      expires_at: expiresAt
+    }]);
+
+  if (sessionError) {
+    console.error('Error creating admin session:', sessionError);
+    throw new AdminAuthError('Failed to create session. Please try again.', 500);
+  }
+
+  return {
+    adminId: admin.id,
+    username: admin.username,
+    role: admin.role,
+    sessionId,
+    expiresAt,
+    totpEnabled,
+    mfaVerified
+  };
+}
+
+export async function verifyAdminSession(sessionId: string | null | undefined): Promise<AdminSession | null> {
+  if (!sessionId) return null;
+
+  const { data: session, error } = await adminSupabase
+    .from('admin_sessions')
+    .select('session_id, expires_at, is_active, mfa_verified, admins(id, username, role, is_active, totp_enabled)')
+    .eq('session_id', sessionId)
+    .eq('is_active', true)
+    .single();
+
+  if (error || !session) {
+    return null;
+  }
+
+  const admin: any = Array.isArray(session.admins) ? session.admins[0] : session.admins;
+  if (!admin || !admin.is_active || new Date(session.expires_at) < new Date()) {
+    await endAdminSession(sessionId);
+    return null;
+  }
+
+  await adminSupabase
+    .from('admin_sessions')
+    .update({ last_active: new Date().toISOString() })
+    .eq('session_id', sessionId);
+
+  return {
+    adminId: admin.id,
+    username: admin.username,
+    role: admin.role,
+    sessionId: session.session_id,
+    expiresAt: session.expires_at,
+    totpEnabled: !!admin.totp_enabled,
+    mfaVerified: !!session.mfa_verified
+  };
+}
+
+export async function endAdminSession(sessionId: string): Promise<void> {
+  const { error } = await adminSupabase
+    .from('admin_sessions')
+    .update({ is_active: false })
+    .eq('session_id', sessionId);
+
+  if (error) {
+    console.error('Error ending admin session:', error);
+  }
+}
+
+export function getAdminSessionId(): Promise<string | null> {
+  return verifySessionCookie(cookies().get(ADMIN_SESSION_COOKIE)?.value);
+}
+
+// Resolves the calling admin and checks the permission, throwing an
+// AdminAuthError that route handlers turn into a JSON error response.
+// Only the two-factor endpoints may pass allowPendingMfa.
+export async function requireAdmin(
+  permission?: AdminPermission,
+  options: { allowPendingMfa?: boolean } = {}
+): Promise<AdminSession> {
+  const admin = await verifyAdminSession(await getAdminSessionId());
+  if (!admin) {
+    throw new AdminAuthError('Admin session expired. Please sign in again.');
+  }
+
+  if (!admin.mfaVerified && !options.allowPendingMfa) {
+    throw new AdminAuthError('Two-factor verification required', 401);
+  }
+
+  if (permission && !hasPermission(admin.role, permission)) {
+    throw new AdminAuthError('You do not have permission to perform this action', 403);
+  }
+
+  return admin;
+}
+
+export function adminErrorResponse(error: any, fallbackMessage: string) {
+  if (error instanceof LoginLockedError) {
+    return loginLockedResponse(error);
+  }
+
+  if (error instanceof AdminAuthError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof AdminValidationError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+
+  console.error(fallbackMessage, error);
+  return NextResponse.json({ error: fallbackMessage }, { status: 500 });
+}
@@ -0,0 +1,133 @@
+import QRCode from 'qrcode';
+import { adminSupabase } from './supabaseAdmin';
+import { AdminAuthError } from './adminAuth';
+import { assertNotLocked, clearLoginFailures, recordLoginFailure, throttleKeys } from './loginThrottle';
+import {
+  buildOtpauthUrl,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp
+} from './totp';
+import type { AdminSession } from '@/types';
+
+async function getTotpState(adminId: string) {
+  const { data, error } = await adminSupabase
+    .from('admins')
+    .select('totp_secret, totp_enabled, totp_last_used_step, recovery_codes')
+    .eq('id', adminId)
+    .single();
+
+  if (error || !data) {
+    throw new AdminAuthError('Admin account not found');
+  }
+  return data;
+}
+
+async function markSessionVerified(sessionId: string) {
+  const { error } = await adminSupabase
+    .from('admin_sessions')
+    .update({ mfa_verified: true })
+    .eq('session_id', sessionId);
+
+  if (error) throw error;
+}
+
+// Second sign-in step. Accepts a 6 digit TOTP code or a single-use recovery code.
+export async function verifyAdminMfa(
+  admin: AdminSession,
+  code: string,
+  ipAddress?: string | null
+): Promise<void> {
+  // Wrong codes count towards the same lockout as wrong passwords
+  const throttle = throttleKeys({ admin: admin.username, ip: ipAddress });
+  await assertNotLocked(throttle);
+
+  const state = await getTotpState(admin.adminId);
+  if (!state.totp_enabled || !state.totp_secret) {
+    throw new AdminAuthError('Two-factor authentication is not enabled', 400);
+  }
+
+  const step = verifyTotp(state.totp_secret, code);
+  if (step !== null) {
+    // Each code may only be used once
+    if (state.totp_last_used_step && step <= state.totp_last_used_step) {
+      throw new AdminAuthError('This code has already been used. Wait for the next one.');
+    }
+
+    await adminSupabase
+      .from('admins')
+      .update({ totp_last_used_step: step })
+      .eq('id', admin.adminId);
+  } else {
+    const codeHash = hashRecoveryCode(code);
+    const recoveryCodes: string[] = state.recovery_codes || [];
+    if (!recoveryCodes.includes(codeHash)) {
+      await recordLoginFailure(throttle);
+      throw new AdminAuthError('Invalid verification code');
+    }
+
+    await adminSupabase
+      .from('admins')
+      .update({ recovery_codes: recoveryCodes.filter(hash => hash !== codeHash) })
+      .eq('id', admin.adminId);
+  }
+
+  await clearLoginFailures(throttle);
+  await markSessionVerified(admin.sessionId);
+}
+
+// Creates a fresh secret that only becomes active once a code is confirmed.
+export async function startTotpEnrollment(admin: AdminSession) {
+  const state = await getTotpState(admin.adminId);
+  if (state.totp_enabled) {
+    throw new AdminAuthError('Two-factor authentication is already enabled', 400);
+  }
+
+  const secret = generateTotpSecret();
+  const { error } = await adminSupabase
+    .from('admins')
+    .update({ totp_secret: secret })
+    .eq('id', admin.adminId);
+
+  if (error) throw error;
+
+  const otpauthUrl = buildOtpauthUrl(secret, admin.username);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl)
+  };
+}
+
+// Confirms enrollment with a first code and returns the recovery codes,
+// which are only ever shown this once.
+export async function activateTotp(admin: AdminSession, code: string): Promise<string[]> {
+  const state = await getTotpState(admin.adminId);
+  if (state.totp_enabled) {
+    throw new AdminAuthError('Two-factor authentication is already enabled', 400);
+  }
+  if (!state.totp_secret) {
+    throw new AdminAuthError('Start enrollment before confirming a code', 400);
+  }
+
+  const step = verifyTotp(state.totp_secret, code);
+  if (step === null) {
+    throw new AdminAuthError('Invalid verification code', 400);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const { error } = await adminSupabase
+    .from('admins')
+    .update({
+      totp_enabled: true,
+      totp_last_used_step: step,
+      recovery_codes: recoveryCodes.map(hashRecoveryCode)
+    })
+    .eq('id', admin.adminId);
+
+  if (error) throw error;
+
+  await markSessionVerified(admin.sessionId);
+  return recoveryCodes;
+}
@@ -0,0 +1,50 @@
+import type { AdminRole } from '@/types';
+
+export type AdminPermission =
+  | 'users:view'
+  | 'users:delete'
+  | 'users:unlock'
+  | 'users:reset_password'
+  | 'devices:override'
+  | 'sessions:revoke'
+  | 'audit:view'
+  | 'tokens:generate'
+  | 'tokens:renew'
+  | 'tokens:delete'
+  | 'admins:manage';
+
+// Support staff are read-only, managers handle tokens, lockouts, password
+// resets, device moves and force logouts, and only owners can delete user
+// accounts and create or disable admin accounts.
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  owner: [
+    'users:view',
+    'users:delete',
+    'users:unlock',
+    'users:reset_password',
+    'devices:override',
+    'sessions:revoke',
+    'audit:view',
+    'tokens:generate',
+    'tokens:renew',
+    'tokens:delete',
+    'admins:manage'
+  ],
+  manager: [
+    'users:view',
+    'users:unlock',
+    'users:reset_password',
+    'devices:override',
+    'sessions:revoke',
+    'audit:view',
+    'tokens:generate',
+    'tokens:renew',
+    'tokens:delete'
+  ],
+  support: ['users:view']
+};
+
+export function hasPermission(role: AdminRole | null | undefined, permission: AdminPermission): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
@@ -0,0 +1,63 @@
+import { adminSupabase, escapeLikePattern } from './supabaseAdmin';
+import type { AdminSession, AuditAction, AuditLogEntry, AuditTargetType } from '@/types';
+
+// Written by the admin actions after each mutation succeeds. A failed write
+// is logged rather than thrown, since the change itself has already happened.
+export async function recordAudit(
+  admin: AdminSession,
+  action: AuditAction,
+  target: { type: AuditTargetType; id?: string | null; label?: string | null },
+  before: unknown = null,
+  after: unknown = null
+): Promise<void> {
+  const { error } = await adminSupabase
+    .from('audit_log')
+    .insert([{
+      admin_id: admin.adminId,
+      admin_username: admin.username,
+      action,
+      target_type: target.type,
+      target_id: target.id || null,
+      target_label: target.label || null,
+      before,
+      after
+    }]);
+
+  if (error) {
+    console.error('Error writing audit log:', { action, target, error });
+  }
+}
+
+export interface AuditLogFilters {
+  action?: string | null;
+  admin?: string | null;
+  // Matches the target's username, token or id
+  target?: string | null;
+  limit?: number;
+}
+
+const MAX_AUDIT_ENTRIES = 200;
+
+export async function fetchAuditLog(filters: AuditLogFilters = {}): Promise<AuditLogEntry[]> {
+  let query = adminSupabase
+    .from('audit_log')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(filters.limit || 100, MAX_AUDIT_ENTRIES));
+
+  if (filters.action) {
+    query = query.eq('action', filters.action);
+  }
+  if (filters.admin) {
+    query = query.ilike('admin_username', `%${escapeLikePattern(filters.admin)}%`);
+  }
+  if (filters.target) {
+    // Commas and parentheses would break out of the or() filter
+    const target = filters.target.replace(/[,()]/g, '');
+    query = query.or(`target_label.ilike.%${escapeLikePattern(target)}%,target_id.eq.${target}`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
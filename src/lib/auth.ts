@@ -0,0 +1,953 @@
+import { v4 as uuidv4 } from 'uuid';
+import { adminSupabase } from './supabaseAdmin';
+import { hashPassword, needsRehash, verifyPassword } from './password';
+import { validateLicenseKey } from './licenseKey';
+import { hashResetCode, validateResetCode } from './resetCode';
+import { checkPasswordPolicy } from './passwordPolicy';
+import {
+  LoginLockedError,
+  assertNotLocked,
+  clearLoginFailures,
+  recordLoginFailure,
+  throttleKeys
+} from './loginThrottle';
+import { recordAuthEvent, type AuthEventContext } from './authEvents';
+import {
+  SESSION_EXPIRY_MESSAGES,
+  SESSION_IDLE_TIMEOUT_SECONDS,
+  SESSION_MAX_AGE_SECONDS,
+  getSessionExpiryReason,
+  isSessionExpiryReason
+} from './sessionLifetime';
+import { bindUserDevice, matchBoundDevice, matchSessionDevice, storeSessionComponents } from './deviceMatch';
+import type {
+  AccountDetails,
+  DeviceComponents,
+  SessionEndReason,
+  SessionHistoryEntry,
+  SignUpErrorCode,
+  UserSession
+} from '@/types';
+
+// Server-side authentication logic. Everything in here runs inside the
+// /api/auth route handlers and uses the service role client.
+
+// Thrown when every device slot on the user's plan is taken by another device
+export class ActiveSessionError extends Error {
+  constructor() {
+    super('Your account is already signed in on every device your plan allows. Sign out on one of them, or transfer to this device.');
+    this.name = 'ActiveSessionError';
+  }
+}
+
+// Thrown when hardware lock is on and the device isn't the bound one
+export class DeviceLockedError extends Error {
+  constructor() {
+    super('This account is locked to another device. Please contact admin to move it to this one.');
+    this.name = 'DeviceLockedError';
+  }
+}
+
+// Under hardware lock only the bound device may sign in. After an admin
+// reset the binding is empty and the next device to sign in claims it.
+async function assertBoundDevice(
+  userData: any,
+  deviceFingerprint: string,
+  deviceComponents: DeviceComponents | null
+) {
+  if (!userData.hardware_lock) return;
+
+  if (!userData.device_fingerprint) {
+    console.log('Binding account to device:', userData.id);
+    await bindUserDevice(userData.id, deviceFingerprint, deviceComponents);
+    return;
+  }
+
+  if (!(await matchBoundDevice(userData, deviceFingerprint, deviceComponents))) {
+    throw new DeviceLockedError();
+  }
+}
+
+// Self-service device transfers allowed per rolling window
+const DEVICE_TRANSFER_LIMIT = Number(process.env.DEVICE_TRANSFER_LIMIT) || 2;
+const DEVICE_TRANSFER_WINDOW_DAYS = Number(process.env.DEVICE_TRANSFER_WINDOW_DAYS) || 30;
+
+export class TransferLimitError extends Error {
+  constructor() {
+    super(
+      `You can transfer to a new device ${DEVICE_TRANSFER_LIMIT} times every ${DEVICE_TRANSFER_WINDOW_DAYS} days. ` +
+      'Please contact admin to move your account.'
+    );
+    this.name = 'TransferLimitError';
+  }
+}
+
+// Starts a session in one database transaction. rotate_session replaces any
+// session on the same device and otherwise needs a free slot within the
+// plan's max_devices. When every slot is taken it refuses, and the user can
+// transfer instead: transfer_session ends the oldest session, counting
+// against the transfer limit. Concurrent sign-ins are serialized on the user
+// row, so the returned row is always the one that won.
+async function createSession(
+  userId: string,
+  deviceFingerprint: string,
+  context: AuthEventContext = {}
+): Promise<string> {
+  console.log('Creating new session for user:', userId);
+
+  const { data: session, error } = await adminSupabase.rpc('rotate_session', {
+    p_user_id: userId,
+    p_session_id: uuidv4(),
+    p_device_fingerprint: deviceFingerprint,
+    p_idle_seconds: SESSION_IDLE_TIMEOUT_SECONDS,
+    p_max_age_seconds: SESSION_MAX_AGE_SECONDS
+  });
+
+  if (error) {
+    if (error.message === 'ACTIVE_ON_OTHER_DEVICE') {
+      throw new ActiveSessionError();
+    }
+    console.error('Session creation error:', error);
+    throw new Error('Failed to create session');
+  }
+
+  console.log('Successfully created session with ID:', session.session_id);
+
+  // A session on this same device was ended in the same transaction
+  const { data: replaced } = await adminSupabase
+    .from('sessions')
+    .select('session_id')
+    .eq('user_id', userId)
+    .eq('device_fingerprint', deviceFingerprint)
+    .eq('end_reason', 'replaced')
+    .gte('ended_at', session.created_at);
+
+  for (const old of replaced || []) {
+    await recordAuthEvent('session_replaced', {
+      userId,
+      sessionId: old.session_id,
+      deviceFingerprint,
+      details: { replaced_by: session.session_id }
+    }, context);
+  }
+
+  return session.session_id;
+}
+
+// Function to validate session
+export async function validateSession(
+  sessionId: string,
+  userId: string,
+  deviceFingerprint: string,
+  deviceComponents: DeviceComponents | null = null,
+  context: AuthEventContext = {}
+): Promise<boolean> {
+  try {
+    console.log('Validating session:', { sessionId, userId });
+
+    const { data: session, error } = await adminSupabase
+      .from('sessions')
+      .select('*')
+      .eq('session_id', sessionId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single();
+
+    if (error) {
+      console.error('Session validation error:', error);
+      return false;
+    }
+
+    if (!session) {
+      console.log('No active session found');
+      return false;
+    }
+
+    // Verify the device matches, allowing for small fingerprint drift
+    if (!(await matchSessionDevice(session, deviceFingerprint, deviceComponents))) {
+      console.log('Device fingerprint mismatch');
+      // Deactivate this session since it's being accessed from a different browser
+      await endMismatchedSession(session, deviceFingerprint, context);
+      return false;
+    }
+
+    console.log('Found active session:', session);
+
+    // Update last_active timestamp
+    const { error: updateError } = await adminSupabase
+      .from('sessions')
+      .update({ last_active: new Date().toISOString() })
+      .eq('session_id', sessionId);
+
+    if (updateError) {
+      console.error('Error updating last_active:', updateError);
+      // Don't fail validation just because we couldn't update timestamp
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Unexpected error in validateSession:', error);
+    return false;
+  }
+}
+
+async function endMismatchedSession(
+  session: { session_id: string; user_id: string; device_fingerprint: string },
+  presentedFingerprint: string,
+  context: AuthEventContext
+) {
+  await adminSupabase
+    .from('sessions')
+    .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: 'fingerprint_mismatch' })
+    .eq('session_id', session.session_id);
+
+  await recordAuthEvent('fingerprint_mismatch', {
+    userId: session.user_id,
+    sessionId: session.session_id,
+    deviceFingerprint: presentedFingerprint,
+    details: { session_fingerprint: session.device_fingerprint }
+  }, context);
+}
+
+// tokens.expiry_date is the one source of truth for when access ends
+async function getTokenExpiry(token: string | null): Promise<string | undefined> {
+  if (!token) return undefined;
+
+  const { data } = await adminSupabase
+    .from('tokens')
+    .select('expiry_date')
+    .eq('token', token)
+    .maybeSingle();
+
+  return data?.expiry_date;
+}
+
+// Short cause for a failed sign-in, for the auth event log
+function signInFailureReason(error: any): string {
+  if (error instanceof LoginLockedError) return 'locked_out';
+  if (error instanceof ActiveSessionError) return 'active_on_other_device';
+  if (error instanceof DeviceLockedError) return 'device_locked';
+  if (error instanceof TransferLimitError) return 'transfer_limit';
+  if (error?.message === 'Invalid username or password') return 'invalid_credentials';
+  return 'error';
+}
+
+// Function to end session
+export async function endSession(
+  sessionId: string,
+  userId?: string,
+  reason: SessionEndReason = 'signed_out'
+): Promise<void> {
+  let query = adminSupabase
+    .from('sessions')
+    .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: reason })
+    .eq('session_id', sessionId)
+    .eq('is_active', true);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { error } = await query;
+  if (error) {
+    console.error('Error ending session:', error);
+  }
+}
+
+// Checks the password under the sign-in throttle and upgrades outdated
+// hashes. Shared by sign-in and device transfer.
+async function authenticate(
+  username: string,
+  password: string,
+  deviceFingerprint: string,
+  ipAddress?: string | null
+) {
+  const throttle = throttleKeys({ username, fingerprint: deviceFingerprint, ip: ipAddress });
+  await assertNotLocked(throttle);
+
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('*')
+    .eq('username', username)
+    .single();
+
+  if (userError || !userData) {
+    console.error('User lookup error:', userError);
+    await recordLoginFailure(throttle);
+    throw new Error('Invalid username or password');
+  }
+
+  const isValidPassword = await verifyPassword(password, userData.password);
+  if (!isValidPassword) {
+    await recordLoginFailure(throttle);
+    throw new Error('Invalid username or password');
+  }
+
+  await clearLoginFailures(throttle);
+
+  // Upgrade plaintext or outdated hashes now that we know the password
+  if (needsRehash(userData.password)) {
+    const { error: rehashError } = await adminSupabase
+      .from('users')
+      .update({ password: await hashPassword(password) })
+      .eq('id', userData.id);
+
+    if (rehashError) {
+      console.error('Error rehashing password:', rehashError);
+    }
+  }
+
+  return userData;
+}
+
+export async function signIn(
+  username: string,
+  password: string,
+  deviceFingerprint: string,
+  context: AuthEventContext = {},
+  deviceComponents: DeviceComponents | null = null
+): Promise<UserSession> {
+  console.log('Starting sign in process for username:', username);
+  console.log('Device fingerprint:', deviceFingerprint);
+
+  let userId: string | null = null;
+  try {
+    const userData = await authenticate(username, password, deviceFingerprint, context.ipAddress);
+    userId = userData.id;
+    await assertBoundDevice(userData, deviceFingerprint, deviceComponents);
+
+    let sessionId: string;
+    try {
+      sessionId = await createSession(userData.id, deviceFingerprint, context);
+    } catch (error) {
+      if (error instanceof ActiveSessionError) throw error;
+      throw new Error('Failed to create session. Please try again.');
+    }
+
+    await storeSessionComponents(sessionId, deviceComponents);
+    await recordAuthEvent('signin_success', { userId, username, sessionId, deviceFingerprint }, context);
+
+    return {
+      username: userData.username,
+      userId: userData.id,
+      isLoggedIn: true,
+      sessionId,
+      token: userData.token,
+      deviceFingerprint,
+      tokenExpiry: await getTokenExpiry(userData.token)
+    };
+  } catch (error) {
+    await recordAuthEvent('signin_failure', {
+      userId,
+      username,
+      deviceFingerprint,
+      reason: signInFailureReason(error)
+    }, context);
+    throw error;
+  }
+}
+
+// Signs in on a new device, ending the oldest session if every device slot
+// is in use, and binds the account to this device. Limited per rolling
+// window unless an admin has granted an override.
+export async function transferDevice(
+  username: string,
+  password: string,
+  deviceFingerprint: string,
+  context: AuthEventContext = {},
+  deviceComponents: DeviceComponents | null = null
+): Promise<UserSession> {
+  console.log('Starting device transfer for username:', username);
+
+  let userData: any;
+  try {
+    userData = await authenticate(username, password, deviceFingerprint, context.ipAddress);
+
+    // Locked accounts can only be moved by an admin
+    await assertBoundDevice(userData, deviceFingerprint, deviceComponents);
+  } catch (error) {
+    await recordAuthEvent('signin_failure', {
+      userId: userData?.id,
+      username,
+      deviceFingerprint,
+      reason: signInFailureReason(error),
+      details: { transfer: true }
+    }, context);
+    throw error;
+  }
+
+  const { data: session, error } = await adminSupabase.rpc('transfer_session', {
+    p_user_id: userData.id,
+    p_session_id: uuidv4(),
+    p_device_fingerprint: deviceFingerprint,
+    p_max_transfers: DEVICE_TRANSFER_LIMIT,
+    p_window_seconds: DEVICE_TRANSFER_WINDOW_DAYS * 24 * 60 * 60,
+    p_idle_seconds: SESSION_IDLE_TIMEOUT_SECONDS,
+    p_max_age_seconds: SESSION_MAX_AGE_SECONDS
+  });
+
+  if (error) {
+    if (error.message === 'TRANSFER_LIMIT_REACHED') {
+      await recordAuthEvent('signin_failure', {
+        userId: userData.id,
+        username,
+        deviceFingerprint,
+        reason: 'transfer_limit',
+        details: { transfer: true }
+      }, context);
+      throw new TransferLimitError();
+    }
+    console.error('Device transfer error:', error);
+    throw new Error('Failed to transfer to this device. Please try again.');
+  }
+
+  console.log('Transferred user to new device with session:', session.session_id);
+  await recordAuthEvent('device_transfer', {
+    userId: userData.id,
+    username,
+    sessionId: session.session_id,
+    deviceFingerprint
+  }, context);
+  await storeSessionComponents(session.session_id, deviceComponents);
+  if (deviceComponents) {
+    await bindUserDevice(userData.id, deviceFingerprint, deviceComponents).catch(error => {
+      console.error('Error storing bound device components:', error);
+    });
+  }
+
+  return {
+    username: userData.username,
+    userId: userData.id,
+    isLoggedIn: true,
+    sessionId: session.session_id,
+    token: userData.token,
+    deviceFingerprint,
+    tokenExpiry: await getTokenExpiry(userData.token)
+  };
+}
+
+const SIGNUP_ERROR_MESSAGES: Record<SignUpErrorCode, string> = {
+  INVALID_TOKEN_FORMAT: 'Invalid token',
+  TOKEN_NOT_FOUND: 'Invalid token',
+  TOKEN_ALREADY_USED: 'Token has already been used',
+  TOKEN_EXPIRED: 'This token has expired. Please contact admin for a new one.',
+  USERNAME_TAKEN: 'Username already exists',
+  SIGNUP_FAILED: 'Failed to create user account. Please try again.'
+};
+
+export class SignUpError extends Error {
+  constructor(public code: SignUpErrorCode, message: string = SIGNUP_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'SignUpError';
+  }
+
+  get status(): number {
+    if (this.code === 'SIGNUP_FAILED') return 500;
+    if (this.code === 'USERNAME_TAKEN' || this.code === 'TOKEN_ALREADY_USED') return 409;
+    return 400;
+  }
+}
+
+export async function signUp(
+  username: string,
+  password: string,
+  rawToken: string,
+  deviceFingerprint: string,
+  deviceComponents: DeviceComponents | null = null
+): Promise<any> {
+  console.log('Starting sign up process for username:', username);
+
+  // Reject mistyped keys before touching the database
+  const { valid, key: token, error: tokenFormatError } = validateLicenseKey(rawToken);
+  if (!valid) {
+    throw new SignUpError('INVALID_TOKEN_FORMAT', tokenFormatError);
+  }
+
+  // Creating the user and claiming the token happen in one transaction, so a
+  // token can never be redeemed twice or left claimed without an account.
+  const { data: newUser, error: redeemError } = await adminSupabase.rpc('redeem_token', {
+    p_username: username,
+    p_password: await hashPassword(password),
+    p_token: token,
+    p_device_fingerprint: deviceFingerprint
+  });
+
+  if (redeemError) {
+    if (redeemError.message in SIGNUP_ERROR_MESSAGES) {
+      throw new SignUpError(redeemError.message as SignUpErrorCode);
+    }
+
+    console.error('Detailed error creating user:', {
+      message: redeemError.message,
+      details: redeemError.details,
+      hint: redeemError.hint,
+      code: redeemError.code
+    });
+    throw new SignUpError('SIGNUP_FAILED');
+  }
+
+  // Keep the signals of the bound device for tolerant matching later
+  if (deviceComponents) {
+    await bindUserDevice(newUser.id, deviceFingerprint, deviceComponents).catch(error => {
+      console.error('Error storing device components:', error);
+    });
+  }
+
+  const { password: _password, device_components: _components, ...safeUser } = newUser;
+  console.log('Successfully created user:', { ...safeUser, token: '[REDACTED]' });
+
+  return {
+    user: safeUser,
+    error: null
+  };
+}
+
+export type PasswordResetErrorCode = 'RESET_CODE_INVALID' | 'RESET_CODE_EXPIRED' | 'WEAK_PASSWORD';
+
+const PASSWORD_RESET_ERROR_MESSAGES: Record<PasswordResetErrorCode, string> = {
+  RESET_CODE_INVALID: 'Invalid username or reset code',
+  RESET_CODE_EXPIRED: 'This reset code has expired. Please ask admin for a new one.',
+  WEAK_PASSWORD: 'Password does not meet the requirements'
+};
+
+export class PasswordResetError extends Error {
+  constructor(public code: PasswordResetErrorCode, message: string = PASSWORD_RESET_ERROR_MESSAGES[code]) {
+    super(message);
+    this.name = 'PasswordResetError';
+  }
+}
+
+// Sets a new password using a code from admin. Attempts count against the
+// sign-in throttle, since codes are short enough to guess otherwise. All of
+// the user's sessions end, wherever they are signed in.
+export async function resetPassword(
+  username: string,
+  rawCode: string,
+  newPassword: string,
+  ipAddress?: string | null
+): Promise<void> {
+  console.log('Starting password reset for username:', username);
+
+  const policyError = checkPasswordPolicy(newPassword, username);
+  if (policyError) {
+    throw new PasswordResetError('WEAK_PASSWORD', policyError);
+  }
+
+  const { valid, code, error: codeFormatError } = validateResetCode(rawCode);
+  if (!valid) {
+    throw new PasswordResetError('RESET_CODE_INVALID', codeFormatError);
+  }
+
+  const throttle = throttleKeys({ username, ip: ipAddress });
+  await assertNotLocked(throttle);
+
+  const { error } = await adminSupabase.rpc('reset_password', {
+    p_username: username,
+    p_code_hash: await hashResetCode(code),
+    p_password: await hashPassword(newPassword)
+  });
+
+  if (error) {
+    if (error.message === 'RESET_CODE_INVALID') {
+      await recordLoginFailure(throttle);
+      throw new PasswordResetError('RESET_CODE_INVALID');
+    }
+    if (error.message === 'RESET_CODE_EXPIRED') {
+      throw new PasswordResetError('RESET_CODE_EXPIRED');
+    }
+    throw error;
+  }
+
+  // The account was probably locked out by the forgotten password
+  await clearLoginFailures(throttleKeys({ username }));
+  console.log('Password reset for username:', username);
+}
+
+// Thrown by changePassword for input the user can fix
+export class PasswordChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PasswordChangeError';
+  }
+}
+
+// Changes the password of the signed-in user after re-checking the current
+// one. Wrong guesses count against the sign-in throttle, so a borrowed
+// browser can't be used to brute-force the password. Optionally ends the
+// user's other sessions; the one making the change stays signed in.
+export async function changePassword(
+  sessionId: string,
+  currentPassword: string,
+  newPassword: string,
+  signOutOtherSessions: boolean,
+  ipAddress?: string | null
+): Promise<void> {
+  const { data: session, error: sessionError } = await adminSupabase
+    .from('sessions')
+    .select('user_id, is_active')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (sessionError || !session?.is_active) {
+    throw new SessionError('Your session has ended. Please sign in again.');
+  }
+
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('id, username, password')
+    .eq('id', session.user_id)
+    .single();
+
+  if (userError) throw userError;
+
+  const throttle = throttleKeys({ username: userData.username, ip: ipAddress });
+  await assertNotLocked(throttle);
+
+  if (!(await verifyPassword(currentPassword, userData.password))) {
+    await recordLoginFailure(throttle);
+    throw new PasswordChangeError('Current password is incorrect');
+  }
+
+  await clearLoginFailures(throttle);
+
+  if (currentPassword === newPassword) {
+    throw new PasswordChangeError('New password must be different from the current one');
+  }
+
+  const policyError = checkPasswordPolicy(newPassword, userData.username);
+  if (policyError) {
+    throw new PasswordChangeError(policyError);
+  }
+
+  const { error: updateError } = await adminSupabase
+    .from('users')
+    .update({ password: await hashPassword(newPassword) })
+    .eq('id', userData.id);
+
+  if (updateError) throw updateError;
+
+  if (signOutOtherSessions) {
+    const { error: endError } = await adminSupabase
+      .from('sessions')
+      .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: 'password_changed' })
+      .eq('user_id', userData.id)
+      .eq('is_active', true)
+      .neq('session_id', sessionId);
+
+    if (endError) {
+      console.error('Error ending other sessions:', endError);
+    }
+  }
+
+  console.log('Password changed for user:', userData.username);
+}
+
+// Marks tokens past their expiry date as expired and signs their users out.
+// Run on a schedule; the database function records each expiry in
+// audit_log.
+export async function expireTokens(): Promise<number> {
+  const { data, error } = await adminSupabase.rpc('expire_tokens');
+
+  if (error) throw error;
+  return data || 0;
+}
+
+// Ends every session past its idle timeout or maximum age. Run on a schedule
+// so abandoned sessions don't stay active forever.
+export async function expireStaleSessions(): Promise<number> {
+  const { data, error } = await adminSupabase.rpc('expire_stale_sessions', {
+    p_idle_seconds: SESSION_IDLE_TIMEOUT_SECONDS,
+    p_max_age_seconds: SESSION_MAX_AGE_SECONDS
+  });
+
+  if (error) throw error;
+  return data || 0;
+}
+
+// Thrown by checkSession and heartbeat. Transient errors (network, database
+// hiccups) should not sign the user out; everything else invalidates the
+// session cookie.
+export class SessionError extends Error {
+  constructor(message: string, public transient: boolean = false) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// Tell the user why if an ended session timed out rather than being signed out
+function assertNotTimedOut(session: { end_reason: string | null }) {
+  if (isSessionExpiryReason(session.end_reason)) {
+    throw new SessionError(SESSION_EXPIRY_MESSAGES[session.end_reason]);
+  }
+}
+
+// Ends an active session that is past its idle timeout or maximum age
+async function assertSessionNotExpired(
+  session: {
+    session_id: string;
+    user_id: string;
+    device_fingerprint: string;
+    created_at: string;
+    last_active: string | null;
+  },
+  context: AuthEventContext
+) {
+  const expiryReason = getSessionExpiryReason(session);
+  if (!expiryReason) return;
+
+  await adminSupabase
+    .from('sessions')
+    .update({ is_active: false, ended_at: new Date().toISOString(), end_reason: expiryReason })
+    .eq('session_id', session.session_id)
+    .eq('is_active', true);
+
+  await recordAuthEvent('session_expired', {
+    userId: session.user_id,
+    sessionId: session.session_id,
+    deviceFingerprint: session.device_fingerprint,
+    reason: expiryReason
+  }, context);
+
+  throw new SessionError(SESSION_EXPIRY_MESSAGES[expiryReason]);
+}
+
+export async function checkSession(
+  sessionId: string | null,
+  deviceFingerprint: string | null,
+  deviceComponents: DeviceComponents | null = null,
+  context: AuthEventContext = {}
+): Promise<UserSession | null> {
+  if (!sessionId || !deviceFingerprint) return null;
+
+  const { data: session, error: sessionError } = await adminSupabase
+    .from('sessions')
+    .select('*')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (sessionError) {
+    if (sessionError.code !== 'PGRST116') {
+      console.error('Session lookup error:', sessionError);
+      throw new SessionError('Failed to verify session', true);
+    }
+    return null;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  if (!session.is_active) {
+    assertNotTimedOut(session);
+    return null;
+  }
+
+  await assertSessionNotExpired(session, context);
+
+  // Get user data
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('*')
+    .eq('id', session.user_id)
+    .single();
+
+  if (userError) {
+    console.error('User lookup error:', userError);
+    // Don't sign the user out on network errors
+    if (userError.code !== 'PGRST116') {
+      throw new SessionError('Failed to verify user access', true);
+    }
+    throw new SessionError('User not found or access revoked');
+  }
+
+  console.log('Checking session for user:', userData.username);
+
+  // Get token data
+  const { data: tokenData, error: tokenError } = await adminSupabase
+    .from('tokens')
+    .select('*')
+    .eq('token', userData.token)
+    .single();
+
+  if (tokenError) {
+    console.error('Token lookup error:', tokenError);
+    if (tokenError.code !== 'PGRST116') {
+      throw new SessionError('Failed to verify access token', true);
+    }
+  }
+
+  if (!tokenData) {
+    throw new SessionError('Invalid token. Please contact admin.');
+  }
+
+  // Check if token is expired
+  const expiryDate = new Date(tokenData.expiry_date);
+  if (expiryDate < new Date()) {
+    await recordAuthEvent('token_expired', {
+      userId: userData.id,
+      username: userData.username,
+      sessionId,
+      deviceFingerprint,
+      details: { expiry_date: tokenData.expiry_date }
+    }, context);
+    throw new SessionError('Your access token has expired. Please contact admin for renewal.');
+  }
+
+  // Check if token is still active
+  if (!tokenData.is_used) {
+    throw new SessionError('Your token has been deactivated. Please contact admin to reactivate.');
+  }
+
+  const isValidSession = await validateSession(
+    sessionId,
+    userData.id,
+    deviceFingerprint,
+    deviceComponents,
+    context
+  );
+  if (!isValidSession) {
+    return null;
+  }
+
+  return {
+    username: userData.username,
+    userId: userData.id,
+    isLoggedIn: true,
+    isAdmin: false,
+    sessionId,
+    token: userData.token,
+    tokenExpiry: tokenData.expiry_date,
+    maxDevices: tokenData.max_devices || 1,
+    deviceFingerprint: session.device_fingerprint,
+    createdAt: session.created_at
+  };
+}
+
+// Read-only account summary for the dashboard. Access itself is enforced by
+// checkSession and the middleware; this returns null for ended sessions.
+export async function getAccountDetails(sessionId: string | null): Promise<AccountDetails | null> {
+  if (!sessionId) return null;
+
+  const { data: session, error: sessionError } = await adminSupabase
+    .from('sessions')
+    .select('user_id, is_active, device_fingerprint, created_at, last_active')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (sessionError || !session?.is_active) return null;
+
+  const { data: userData, error: userError } = await adminSupabase
+    .from('users')
+    .select('username, token, device_fingerprint, hardware_lock, created_at')
+    .eq('id', session.user_id)
+    .single();
+
+  if (userError) throw userError;
+
+  const { data: tokenData } = await adminSupabase
+    .from('tokens')
+    .select('duration, expiry_date, max_devices')
+    .eq('token', userData.token)
+    .maybeSingle();
+
+  return {
+    username: userData.username,
+    createdAt: userData.created_at,
+    plan: tokenData?.duration || null,
+    maxDevices: tokenData?.max_devices || 1,
+    tokenExpiry: tokenData?.expiry_date || null,
+    boundDevice: userData.device_fingerprint,
+    hardwareLock: !!userData.hardware_lock,
+    currentDevice: session.device_fingerprint,
+    sessionStartedAt: session.created_at,
+    lastActiveAt: session.last_active
+  };
+}
+
+// How many past sessions the account page lists
+const SESSION_HISTORY_LIMIT = 20;
+
+// The signed-in user's most recent sessions, newest first, so they can spot
+// sign-ins they don't recognise.
+export async function getSessionHistory(sessionId: string | null): Promise<SessionHistoryEntry[] | null> {
+  if (!sessionId) return null;
+
+  const { data: session, error: sessionError } = await adminSupabase
+    .from('sessions')
+    .select('user_id, is_active')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (sessionError || !session?.is_active) return null;
+
+  const { data: sessions, error } = await adminSupabase
+    .from('sessions')
+    .select('session_id, device_fingerprint, created_at, last_active, ended_at, end_reason, is_active')
+    .eq('user_id', session.user_id)
+    .order('created_at', { ascending: false })
+    .limit(SESSION_HISTORY_LIMIT);
+
+  if (error) throw error;
+
+  return (sessions || []).map(row => ({
+    deviceFingerprint: row.device_fingerprint,
+    createdAt: row.created_at,
+    lastActive: row.last_active,
+    endedAt: row.ended_at,
+    endReason: row.end_reason,
+    isActive: row.is_active,
+    isCurrent: row.session_id === sessionId
+  }));
+}
+
+// Cheap keep-alive for open tabs: a single session lookup plus the
+// last_active update, without the user and token checks of checkSession.
+// Revocations reach the browser through realtime; this only catches what
+// realtime can miss (timeouts, dropped connections). Returns false once the
+// session is no longer usable.
+export async function heartbeat(
+  sessionId: string | null,
+  deviceFingerprint: string | null,
+  deviceComponents: DeviceComponents | null = null,
+  context: AuthEventContext = {}
+): Promise<boolean> {
+  if (!sessionId || !deviceFingerprint) return false;
+
+  const { data: session, error } = await adminSupabase
+    .from('sessions')
+    .select('session_id, user_id, device_fingerprint, device_components, is_active, created_at, last_active, end_reason')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Heartbeat session lookup error:', error);
+      throw new SessionError('Failed to verify session', true);
+    }
+    return false;
+  }
+
+  if (!session.is_active) {
+    assertNotTimedOut(session);
+    return false;
+  }
+
+  await assertSessionNotExpired(session, context);
+
+  if (!(await matchSessionDevice(session, deviceFingerprint, deviceComponents))) {
+    console.log('Device fingerprint mismatch on heartbeat');
+    await endMismatchedSession(session, deviceFingerprint, context);
+    return false;
+  }
+
+  const { error: updateError } = await adminSupabase
+    .from('sessions')
+    .update({ last_active: new Date().toISOString() })
+    .eq('session_id', sessionId);
+
+  if (updateError) {
+    console.error('Error updating last_active:', updateError);
+  }
+
+  return true;
+}
@@ -0,0 +1,89 @@
+import { adminSupabase, escapeLikePattern } from './supabaseAdmin';
+import { getClientIp } from './loginThrottle';
+import type { AuthEvent, AuthEventType } from '@/types';
+
+// Who is on the other end of an auth request, for the event log
+export interface AuthEventContext {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export function getAuthEventContext(request: Request): AuthEventContext {
+  return {
+    ipAddress: getClientIp(request),
+    userAgent: request.headers.get('user-agent')
+  };
+}
+
+export interface AuthEventDetails {
+  userId?: string | null;
+  username?: string | null;
+  sessionId?: string | null;
+  deviceFingerprint?: string | null;
+  reason?: string | null;
+  details?: Record<string, unknown> | null;
+}
+
+// Logging must never get in the way of signing in, so failures only go to
+// the console.
+export async function recordAuthEvent(
+  event: AuthEventType,
+  details: AuthEventDetails,
+  context: AuthEventContext = {}
+): Promise<void> {
+  const { error } = await adminSupabase
+    .from('auth_events')
+    .insert([{
+      event,
+      user_id: details.userId || null,
+      username: details.username || null,
+      session_id: details.sessionId || null,
+      device_fingerprint: details.deviceFingerprint || null,
+      ip_address: context.ipAddress || null,
+      user_agent: context.userAgent?.slice(0, 512) || null,
+      reason: details.reason || null,
+      details: details.details || null
+    }]);
+
+  if (error) {
+    console.error('Error recording auth event:', { event, error });
+  }
+}
+
+const MAX_AUTH_EVENTS = 200;
+
+// Events for one user, matched on the account id when it still exists so
+// renamed or deleted accounts keep their history
+export async function fetchAuthEvents(filters: {
+  username?: string | null;
+  event?: string | null;
+  limit?: number;
+}): Promise<AuthEvent[]> {
+  let query = adminSupabase
+    .from('auth_events')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(Math.min(filters.limit || 100, MAX_AUTH_EVENTS));
+
+  if (filters.username) {
+    // ilike is only used for a case-insensitive exact match, on the account
+    // and on the events alike, so wildcards must not match other users' names
+    const pattern = escapeLikePattern(filters.username);
+    const { data: user } = await adminSupabase
+      .from('users')
+      .select('id')
+      .ilike('username', pattern)
+      .maybeSingle();
+
+    query = user
+      ? query.or(`user_id.eq.${user.id},username.ilike.${pattern.replace(/[,()]/g, '')}`)
+      : query.ilike('username', pattern);
+  }
+  if (filters.event) {
+    query = query.eq('event', filters.event);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
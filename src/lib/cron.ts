@@ -0,0 +1,8 @@
+// Scheduled jobs call the /api/cron routes with CRON_SECRET as a bearer token.
+// The schedules live in vercel.json; Vercel Cron sends the header itself once
+// CRON_SECRET is set on the project. Without a secret the routes stay closed.
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+}
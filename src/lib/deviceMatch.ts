@@ -0,0 +1,210 @@
+import { adminSupabase } from './supabaseAdmin';
+import type { DeviceComponents } from '@/types';
+
+// FingerprintJS visitor IDs change when a single signal changes, which
+// happens after browser updates. When the ID differs we compare the
+// individual signals instead and accept the device if enough still match.
+
+// Share of signals that must match for a changed visitor ID to be accepted
+export const FINGERPRINT_MATCH_THRESHOLD = Number(process.env.FINGERPRINT_MATCH_THRESHOLD) || 0.85;
+
+// Comparisons this close to the threshold (either side) are recorded for review
+const NEAR_MISS_MARGIN = 0.15;
+const MAX_COMPONENTS = 100;
+
+interface StoredDevice {
+  session_id: string;
+  user_id: string;
+  device_fingerprint: string | null;
+  device_components: DeviceComponents | null;
+}
+
+// Accepts the X-Device-Components header or a request body field. Anything
+// malformed is treated as missing, which falls back to exact matching.
+export function parseDeviceComponents(value: unknown): DeviceComponents | null {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+
+  const entries = Object.entries(parsed as Record<string, unknown>)
+    .filter(([, hash]) => typeof hash === 'string' && hash.length <= 64)
+    .slice(0, MAX_COMPONENTS);
+
+  return entries.length > 0 ? Object.fromEntries(entries) as DeviceComponents : null;
+}
+
+// Fraction of signals (over both sets) whose hashes are identical
+export function componentSimilarity(stored: DeviceComponents, presented: DeviceComponents) {
+  const names = Array.from(new Set([...Object.keys(stored), ...Object.keys(presented)]));
+  const changed = names.filter(name => stored[name] !== presented[name]);
+  return {
+    score: names.length === 0 ? 0 : (names.length - changed.length) / names.length,
+    changed
+  };
+}
+
+interface NearMiss {
+  userId: string;
+  sessionId: string | null;
+  storedFingerprint: string | null;
+  presentedFingerprint: string;
+  score: number;
+  accepted: boolean;
+  changed: string[];
+}
+
+async function recordNearMiss(nearMiss: NearMiss) {
+  console.log('Fingerprint near-miss:', {
+    userId: nearMiss.userId,
+    sessionId: nearMiss.sessionId,
+    score: nearMiss.score.toFixed(3),
+    accepted: nearMiss.accepted,
+    changed: nearMiss.changed
+  });
+
+  const { error } = await adminSupabase
+    .from('fingerprint_near_misses')
+    .insert([{
+      user_id: nearMiss.userId,
+      session_id: nearMiss.sessionId,
+      stored_fingerprint: nearMiss.storedFingerprint,
+      presented_fingerprint: nearMiss.presentedFingerprint,
+      score: Number(nearMiss.score.toFixed(3)),
+      accepted: nearMiss.accepted,
+      changed_components: nearMiss.changed
+    }]);
+
+  if (error) {
+    console.error('Error recording fingerprint near-miss:', error);
+  }
+}
+
+// Compares a presented device with a stored one. Exact visitor ID matches
+// always pass; otherwise both sides need components to be compared.
+async function compareDevice(
+  stored: { fingerprint: string | null; components: DeviceComponents | null },
+  fingerprint: string,
+  components: DeviceComponents | null,
+  context: { userId: string; sessionId: string | null }
+): Promise<'exact' | 'similar' | 'different'> {
+  if (stored.fingerprint === fingerprint) return 'exact';
+  if (!stored.components || !components) return 'different';
+
+  const { score, changed } = componentSimilarity(stored.components, components);
+  const accepted = score >= FINGERPRINT_MATCH_THRESHOLD;
+
+  if (score >= FINGERPRINT_MATCH_THRESHOLD - NEAR_MISS_MARGIN) {
+    await recordNearMiss({
+      ...context,
+      storedFingerprint: stored.fingerprint,
+      presentedFingerprint: fingerprint,
+      score,
+      accepted,
+      changed
+    });
+  }
+
+  return accepted ? 'similar' : 'different';
+}
+
+async function updateSessionDevice(sessionId: string, fingerprint: string, components: DeviceComponents) {
+  const { error } = await adminSupabase
+    .from('sessions')
+    .update({ device_fingerprint: fingerprint, device_components: components })
+    .eq('session_id', sessionId);
+
+  if (error) {
+    console.error('Error updating session device:', error);
+  }
+}
+
+// Stores the signals for a freshly created session
+export async function storeSessionComponents(sessionId: string, components: DeviceComponents | null) {
+  if (!components) return;
+
+  const { error } = await adminSupabase
+    .from('sessions')
+    .update({ device_components: components })
+    .eq('session_id', sessionId);
+
+  if (error) {
+    console.error('Error storing device components:', error);
+  }
+}
+
+// Records the device an account is bound to
+export async function bindUserDevice(
+  userId: string,
+  fingerprint: string | null,
+  components: DeviceComponents | null
+) {
+  const { error } = await adminSupabase
+    .from('users')
+    .update({ device_fingerprint: fingerprint, device_components: components })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+// Decides whether the presented device is the one the session was created
+// on. An accepted drift updates the session so the next check is exact again.
+export async function matchSessionDevice(
+  session: StoredDevice,
+  fingerprint: string,
+  components: DeviceComponents | null
+): Promise<boolean> {
+  const result = await compareDevice(
+    { fingerprint: session.device_fingerprint, components: session.device_components },
+    fingerprint,
+    components,
+    { userId: session.user_id, sessionId: session.session_id }
+  );
+
+  if (result === 'exact') {
+    // Sessions from before components were collected pick them up here
+    if (!session.device_components && components) {
+      await storeSessionComponents(session.session_id, components);
+    }
+    return true;
+  }
+
+  if (result === 'similar') {
+    await updateSessionDevice(session.session_id, fingerprint, components!);
+    return true;
+  }
+
+  return false;
+}
+
+// Same check against the device an account is bound to under hardware lock.
+// The binding follows accepted drift just like sessions do.
+export async function matchBoundDevice(
+  user: { id: string; device_fingerprint: string | null; device_components: DeviceComponents | null },
+  fingerprint: string,
+  components: DeviceComponents | null
+): Promise<boolean> {
+  const result = await compareDevice(
+    { fingerprint: user.device_fingerprint, components: user.device_components },
+    fingerprint,
+    components,
+    { userId: user.id, sessionId: null }
+  );
+
+  if (result === 'different') return false;
+
+  if (result === 'similar' || (!user.device_components && components)) {
+    try {
+      await bindUserDevice(user.id, fingerprint, components);
+    } catch (error) {
+      console.error('Error updating bound device:', error);
+    }
+  }
+  return true;
+}
@@ -0,0 +1,111 @@
+// License keys look like GKL-XXXX-XXXX-XXXX. Characters come from Crockford's
+// base32 alphabet (no I, L, O or U) and the last character is a Luhn mod 32
+// check digit, so single-character typos and most swapped neighbours are
+// caught before anything hits the database.
+//
+// Safe to import in the browser: validation runs on the sign-up form, while
+// generation only happens in the admin route handlers.
+
+const ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+export interface LicenseKeyFormat {
+  prefix: string;
+  groups: number;
+  groupLength: number;
+}
+
+export const licenseKeyFormat: LicenseKeyFormat = {
+  prefix: process.env.NEXT_PUBLIC_LICENSE_KEY_PREFIX || 'GKL',
+  groups: Number(process.env.NEXT_PUBLIC_LICENSE_KEY_GROUPS) || 3,
+  groupLength: Number(process.env.NEXT_PUBLIC_LICENSE_KEY_GROUP_LENGTH) || 4
+};
+
+function checkCharacter(payload: string): string {
+  const n = ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = payload.length - 1; i >= 0; i--) {
+    let addend = factor * ALPHABET.indexOf(payload[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+
+  return ALPHABET[(n - (sum % n)) % n];
+}
+
+function formatKey(body: string, format: LicenseKeyFormat): string {
+  const groups: string[] = [];
+  for (let i = 0; i < body.length; i += format.groupLength) {
+    groups.push(body.slice(i, i + format.groupLength));
+  }
+  return [format.prefix, ...groups].filter(Boolean).join('-');
+}
+
+// Shape of a key with every character replaced by X, for hints and errors
+export function licenseKeyPattern(format: LicenseKeyFormat = licenseKeyFormat): string {
+  return formatKey('X'.repeat(format.groups * format.groupLength), format);
+}
+
+export function generateLicenseKey(format: LicenseKeyFormat = licenseKeyFormat): string {
+  const payloadLength = format.groups * format.groupLength - 1;
+  const bytes = new Uint8Array(payloadLength);
+  crypto.getRandomValues(bytes);
+
+  // 256 is a multiple of 32, so masking keeps the distribution uniform
+  let payload = '';
+  bytes.forEach(byte => {
+    payload += ALPHABET[byte & 31];
+  });
+
+  return formatKey(payload + checkCharacter(payload), format);
+}
+
+// Uppercases and trims so that keys typed by hand still match what was issued.
+function normalizeLicenseKey(input: string): string {
+  return input
+    .trim()
+    .toUpperCase()
+    .replace(/\s+/g, '')
+    .replace(/[–—]/g, '-');
+}
+
+// Keys issued before this format existed (UUIDs and random base36 strings)
+// don't start with the prefix and are passed through untouched.
+export function isFormattedLicenseKey(input: string, format: LicenseKeyFormat = licenseKeyFormat): boolean {
+  return normalizeLicenseKey(input).startsWith(`${format.prefix}-`);
+}
+
+export function validateLicenseKey(
+  input: string,
+  format: LicenseKeyFormat = licenseKeyFormat
+): { valid: boolean; key: string; error?: string } {
+  if (!isFormattedLicenseKey(input, format)) {
+    const legacyKey = input.trim();
+    return { valid: legacyKey.length > 0, key: legacyKey };
+  }
+
+  const normalized = normalizeLicenseKey(input);
+  const body = normalized
+    .slice(format.prefix.length + 1)
+    .replace(/-/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+  const key = formatKey(body, format);
+
+  if (body.length !== format.groups * format.groupLength) {
+    return { valid: false, key, error: `Access token must look like ${licenseKeyPattern(format)}` };
+  }
+
+  if (!/^[0-9A-HJKMNP-TV-Z]+$/.test(body)) {
+    return { valid: false, key, error: 'Access token contains invalid characters' };
+  }
+
+  const payload = body.slice(0, -1);
+  if (checkCharacter(payload) !== body.slice(-1)) {
+    return { valid: false, key, error: 'Access token is not valid. Please check for typos.' };
+  }
+
+  return { valid: true, key };
+}
@@ -0,0 +1,145 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminSupabase } from './supabaseAdmin';
+
+export type ThrottleScope = 'username' | 'fingerprint' | 'ip' | 'admin';
+
+export interface ThrottleKey {
+  scope: ThrottleScope;
+  key: string;
+}
+
+// Free attempts before backoff starts. IPs get more room because several
+// people can share one address.
+const THRESHOLDS: Record<ThrottleScope, number> = {
+  username: 5,
+  fingerprint: 5,
+  ip: 20,
+  admin: 5
+};
+const BASE_LOCK_SECONDS = 30;
+const MAX_LOCK_SECONDS = 60 * 60;
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+
+export class LoginLockedError extends Error {
+  constructor(public lockedUntil: Date) {
+    const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+    super(`Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    this.name = 'LoginLockedError';
+  }
+
+  get retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.lockedUntil.getTime() - Date.now()) / 1000));
+  }
+}
+
+// The 429 every sign-in style route sends for a LoginLockedError
+export function loginLockedResponse(error: LoginLockedError) {
+  return NextResponse.json(
+    { error: error.message, lockedUntil: error.lockedUntil.toISOString() },
+    { status: 429, headers: { 'Retry-After': String(error.retryAfterSeconds) } }
+  );
+}
+
+// Reverse proxies in front of the app. Each one appends the address it got
+// the request from to X-Forwarded-For, so the client is that many entries
+// from the right. Anything further left was sent by the client itself.
+// Defaults to 1; set 0 when nothing sits in front of the app, which ignores
+// X-Forwarded-For entirely.
+function parseTrustedProxyCount(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return 1;
+
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) {
+    console.error('Invalid TRUSTED_PROXY_COUNT, ignoring X-Forwarded-For:', value);
+    return 0;
+  }
+  return count;
+}
+
+const TRUSTED_PROXY_COUNT = parseTrustedProxyCount(process.env.TRUSTED_PROXY_COUNT);
+
+// Never trust the left-most X-Forwarded-For value: rotating it would get
+// around the per-IP backoff. Returns null when the address can't be trusted,
+// which leaves the other throttle keys in place.
+export function getClientIp(request: Request): string | null {
+  // Filled in by the hosting platform, not by the client
+  const platformIp = (request as NextRequest).ip;
+  if (platformIp) return platformIp;
+
+  if (TRUSTED_PROXY_COUNT === 0) return null;
+
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(ip => ip.trim())
+    .filter(Boolean);
+
+  return forwarded.length >= TRUSTED_PROXY_COUNT
+    ? forwarded[forwarded.length - TRUSTED_PROXY_COUNT]
+    : null;
+}
+
+// Builds the keys for a sign-in attempt, skipping any we don't know.
+export function throttleKeys(entries: Partial<Record<ThrottleScope, string | null | undefined>>): ThrottleKey[] {
+  return (Object.keys(entries) as ThrottleScope[])
+    .filter(scope => !!entries[scope])
+    .map(scope => ({ scope, key: entries[scope]!.toLowerCase() }));
+}
+
+// Throws LoginLockedError if any of the keys is currently locked.
+export async function assertNotLocked(keys: ThrottleKey[]): Promise<void> {
+  if (keys.length === 0) return;
+
+  const { data, error } = await adminSupabase
+    .from('login_attempts')
+    .select('scope, key, locked_until')
+    .in('key', keys.map(k => k.key))
+    .gt('locked_until', new Date().toISOString());
+
+  if (error) {
+    console.error('Error checking login lockout:', error);
+    return;
+  }
+
+  const locks = (data || [])
+    .filter(row => keys.some(k => k.scope === row.scope && k.key === row.key))
+    .map(row => new Date(row.locked_until));
+
+  if (locks.length > 0) {
+    throw new LoginLockedError(new Date(Math.max(...locks.map(date => date.getTime()))));
+  }
+}
+
+export async function recordLoginFailure(keys: ThrottleKey[]): Promise<void> {
+  await Promise.all(keys.map(async ({ scope, key }) => {
+    const { error } = await adminSupabase.rpc('register_login_failure', {
+      p_scope: scope,
+      p_key: key,
+      p_threshold: THRESHOLDS[scope],
+      p_base_seconds: BASE_LOCK_SECONDS,
+      p_max_seconds: MAX_LOCK_SECONDS,
+      p_window_seconds: FAILURE_WINDOW_SECONDS
+    });
+
+    if (error) {
+      console.error('Error recording login failure:', error);
+    }
+  }));
+}
+
+// A successful sign-in clears the account and device counters. IP counters
+// are left to expire on their own so one good login can't reset an attack.
+export async function clearLoginFailures(keys: ThrottleKey[]): Promise<void> {
+  const resettable = keys.filter(k => k.scope !== 'ip');
+  await Promise.all(resettable.map(async ({ scope, key }) => {
+    const { error } = await adminSupabase
+      .from('login_attempts')
+      .delete()
+      .eq('scope', scope)
+      .eq('key', key);
+
+    if (error) {
+      console.error('Error clearing login failures:', error);
+    }
+  }));
+}
@@ -0,0 +1,59 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// Stored hashes look like: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const COST = 16384;
+const BLOCK_SIZE = 8;
+const PARALLELIZATION = 1;
+
+function deriveKey(password: string, salt: Buffer, N: number, r: number, p: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, { N, r, p, maxmem: 128 * N * r * 2 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export function isPasswordHash(stored: string | null | undefined): boolean {
+  return !!stored && stored.startsWith(`${HASH_PREFIX}$`) && stored.split('$').length === 6;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, COST, BLOCK_SIZE, PARALLELIZATION);
+  return [
+    HASH_PREFIX,
+    COST,
+    BLOCK_SIZE,
+    PARALLELIZATION,
+    salt.toString('base64'),
+    key.toString('base64')
+  ].join('$');
+}
+
+// Accepts both scrypt hashes and legacy plaintext rows so existing accounts
+// keep working until they are rehashed on their next successful sign-in.
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  if (!stored) return false;
+
+  if (!isPasswordHash(stored)) {
+    const given = Buffer.from(password);
+    const expected = Buffer.from(stored);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  const [, N, r, p, salt, hash] = stored.split('$');
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), Number(N), Number(r), Number(p));
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// True for plaintext rows and hashes created with weaker parameters.
+export function needsRehash(stored: string | null | undefined): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, N, r, p] = stored!.split('$');
+  return Number(N) < COST || Number(r) < BLOCK_SIZE || Number(p) < PARALLELIZATION;
+}
@@ -0,0 +1,29 @@
+// Rules for new passwords. Checked on the form for quick feedback and again
+// on the server. Safe to import in the browser.
+
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 128;
+
+export const PASSWORD_POLICY_HINT =
+  `At least ${PASSWORD_MIN_LENGTH} characters, with a letter and a number`;
+
+// Returns a user-facing message for the first rule broken, or null
+export function checkPasswordPolicy(password: string, username?: string): string | null {
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+  }
+
+  if (password.length > PASSWORD_MAX_LENGTH) {
+    return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+  }
+
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    return 'Password must contain at least one letter and one number';
+  }
+
+  if (username && password.toLowerCase().includes(username.toLowerCase())) {
+    return 'Password must not contain your username';
+  }
+
+  return null;
+}
@@ -0,0 +1,46 @@
+// Password reset codes look like RST-XXXX-XXXX. They reuse the license key
+// alphabet and check digit, so a mistyped code is caught on the form instead
+// of costing one of the user's attempts.
+//
+// Safe to import in the browser; hashing uses Web Crypto.
+
+import {
+  generateLicenseKey,
+  isFormattedLicenseKey,
+  licenseKeyPattern,
+  validateLicenseKey,
+  type LicenseKeyFormat
+} from './licenseKey';
+
+export const resetCodeFormat: LicenseKeyFormat = {
+  prefix: 'RST',
+  groups: 2,
+  groupLength: 4
+};
+
+export function resetCodePattern(): string {
+  return licenseKeyPattern(resetCodeFormat);
+}
+
+export function generateResetCode(): string {
+  return generateLicenseKey(resetCodeFormat);
+}
+
+export function validateResetCode(input: string): { valid: boolean; code: string; error?: string } {
+  if (!isFormattedLicenseKey(input, resetCodeFormat)) {
+    return { valid: false, code: input.trim(), error: `Reset code must look like ${resetCodePattern()}` };
+  }
+
+  const { valid, key } = validateLicenseKey(input, resetCodeFormat);
+  return valid
+    ? { valid, code: key }
+    : { valid, code: key, error: 'Reset code is not valid. Please check for typos.' };
+}
+
+// Only the hash is stored, so a leaked table can't be used to reset accounts
+export async function hashResetCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(code));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,78 @@
+// Signed session cookies. The cookie only carries the session id plus an
+// HMAC so it can't be forged; the session itself lives in the database.
+// Uses Web Crypto so it works in route handlers and edge middleware alike.
+
+import { SESSION_MAX_AGE_SECONDS } from './sessionLifetime';
+
+export const USER_SESSION_COOKIE = 'gkl_session';
+export const ADMIN_SESSION_COOKIE = 'gkl_admin_session';
+
+// Upper bound for the browser cookie; the database row decides validity.
+export const USER_SESSION_MAX_AGE = SESSION_MAX_AGE_SECONDS;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(bytes).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+async function sign(value: string): Promise<string> {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+export async function signSessionId(sessionId: string): Promise<string> {
+  return `${sessionId}.${await sign(sessionId)}`;
+}
+
+// Returns the session id if the cookie is present and correctly signed.
+export async function verifySessionCookie(cookieValue: string | null | undefined): Promise<string | null> {
+  if (!cookieValue) return null;
+
+  const separator = cookieValue.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const sessionId = cookieValue.slice(0, separator);
+  const signature = cookieValue.slice(separator + 1);
+
+  try {
+    return safeEqual(signature, await sign(sessionId)) ? sessionId : null;
+  } catch (error) {
+    console.error('Error verifying session cookie:', error);
+    return null;
+  }
+}
+
+export function sessionCookieOptions(maxAgeSeconds: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    maxAge: maxAgeSeconds
+  };
+}
@@ -0,0 +1,47 @@
+// How long a user session may live. Enforced by checkSession, the middleware
+// and the expire-sessions cron job. Plain values only, so it is safe to
+// import from edge middleware.
+
+export const SESSION_IDLE_TIMEOUT_SECONDS =
+  (Number(process.env.SESSION_IDLE_TIMEOUT_MINUTES) || 60) * 60;
+
+export const SESSION_MAX_AGE_SECONDS =
+  (Number(process.env.SESSION_MAX_AGE_HOURS) || 24 * 7) * 60 * 60;
+
+export type SessionExpiryReason = 'idle_timeout' | 'max_age';
+
+export const SESSION_EXPIRY_MESSAGES: Record<SessionExpiryReason, string> = {
+  idle_timeout: 'Your session expired due to inactivity. Please sign in again.',
+  max_age: 'Your session has expired. Please sign in again.'
+};
+
+export function isSessionExpiryReason(reason: unknown): reason is SessionExpiryReason {
+  return reason === 'idle_timeout' || reason === 'max_age';
+}
+
+// Returns why an active session row should be ended, or null if it is still valid.
+export function getSessionExpiryReason(
+  session: { created_at: string; last_active: string | null },
+  now: number = Date.now()
+): SessionExpiryReason | null {
+  if (now - new Date(session.created_at).getTime() > SESSION_MAX_AGE_SECONDS * 1000) {
+    return 'max_age';
+  }
+
+  const lastActive = new Date(session.last_active || session.created_at).getTime();
+  if (now - lastActive > SESSION_IDLE_TIMEOUT_SECONDS * 1000) {
+    return 'idle_timeout';
+  }
+
+  return null;
+}
+
+// Heartbeat cadence handed to the browser by /api/auth/heartbeat. Hidden tabs
+// back off towards the maximum, which stays well inside the idle timeout so a
+// background tab keeps its session.
+export const HEARTBEAT_INTERVAL_SECONDS = Number(process.env.SESSION_HEARTBEAT_SECONDS) || 60;
+
+export const HEARTBEAT_MAX_INTERVAL_SECONDS = Math.max(
+  HEARTBEAT_INTERVAL_SECONDS,
+  Math.min(15 * 60, Math.floor(SESSION_IDLE_TIMEOUT_SECONDS / 2))
+);
@@ -0,0 +1,17 @@
+import { createClient } from '@supabase/supabase-js';
+
+// Service role client for privileged operations. Only import this from route
+// handlers and other server code - the key must never reach the browser.
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+export const adminSupabase = createClient(supabaseUrl, serviceRoleKey, {
+  auth: {
+    autoRefreshToken: false,
+    persistSession: false
+  }
+});
+
+// Escapes the LIKE wildcards in user input so an ilike filter matches it
+// literally. Add any % wrapping after escaping.
+export const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, '\\$&');
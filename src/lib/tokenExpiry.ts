@@ -0,0 +1,60 @@
+// When users are warned that their access token is running out. Read by
+// SessionProvider in the browser, so the thresholds come from a NEXT_PUBLIC_
+// variable: comma-separated durations such as "7d,1d,1h".
+
+const DURATION_UNITS: Record<string, number> = { d: 24 * 60 * 60, h: 60 * 60, m: 60 };
+
+const DEFAULT_WARNING_THRESHOLDS_SECONDS = [7 * 24 * 60 * 60, 24 * 60 * 60, 60 * 60];
+
+// Largest first, duplicates and unreadable entries dropped
+export function parseWarningThresholds(value: string | undefined): number[] {
+  const thresholds = (value || '')
+    .split(',')
+    .map(part => part.trim().toLowerCase().match(/^(\d+)\s*([dhm])$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(([, amount, unit]) => Number(amount) * DURATION_UNITS[unit])
+    .filter(seconds => seconds > 0);
+
+  return Array.from(new Set(thresholds)).sort((a, b) => b - a);
+}
+
+export const EXPIRY_WARNING_THRESHOLDS_SECONDS = (() => {
+  const thresholds = parseWarningThresholds(process.env.NEXT_PUBLIC_EXPIRY_WARNING_THRESHOLDS);
+  return thresholds.length ? thresholds : DEFAULT_WARNING_THRESHOLDS_SECONDS;
+})();
+
+// Default window for the admin "expiring soon" view
+export const EXPIRING_SOON_DAYS = Math.ceil(EXPIRY_WARNING_THRESHOLDS_SECONDS[0] / DURATION_UNITS.d);
+
+export function getSecondsRemaining(expiry: string | null | undefined, now: number = Date.now()): number | null {
+  if (!expiry) return null;
+  return Math.max(0, Math.floor((new Date(expiry).getTime() - now) / 1000));
+}
+
+// Whole days left, rounded up so the last day reads as 1 rather than 0
+export function getDaysRemaining(expiry: string | null | undefined, now: number = Date.now()): number | null {
+  const seconds = getSecondsRemaining(expiry, now);
+  return seconds === null ? null : Math.ceil(seconds / DURATION_UNITS.d);
+}
+
+// The smallest threshold the token has passed, or null if no warning is due.
+// Expired tokens get null too; checkSession sends those to /renew.
+export function getExpiryWarningThreshold(
+  expiry: string | null | undefined,
+  now: number = Date.now()
+): number | null {
+  const seconds = getSecondsRemaining(expiry, now);
+  if (!seconds) return null;
+
+  const passed = EXPIRY_WARNING_THRESHOLDS_SECONDS.filter(threshold => seconds <= threshold);
+  return passed.length ? passed[passed.length - 1] : null;
+}
+
+export function formatTimeRemaining(seconds: number): string {
+  const [value, unit] =
+    seconds >= DURATION_UNITS.d ? [Math.ceil(seconds / DURATION_UNITS.d), 'day']
+    : seconds >= DURATION_UNITS.h ? [Math.ceil(seconds / DURATION_UNITS.h), 'hour']
+    : [Math.max(1, Math.ceil(seconds / DURATION_UNITS.m)), 'minute'];
+
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
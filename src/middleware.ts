@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { adminSupabase } from '@/lib/supabaseAdmin';
+import {
+  ADMIN_SESSION_COOKIE,
+  USER_SESSION_COOKIE,
+  verifySessionCookie
+} from '@/lib/sessionCookie';
+import { getSessionExpiryReason } from '@/lib/sessionLifetime';
+
+type UserAccess = 'none' | 'expired' | 'active';
+
+// Checks the signed user cookie against the sessions table and the user's
+// token expiry. Mirrors checkSession in lib/auth without the fingerprint
+// check, which needs the browser.
+async function getUserAccess(request: NextRequest): Promise<UserAccess> {
+  const sessionId = await verifySessionCookie(request.cookies.get(USER_SESSION_COOKIE)?.value);
+  if (!sessionId) return 'none';
+
+  const { data: session } = await adminSupabase
+    .from('sessions')
+    .select('user_id, is_active, created_at, last_active')
+    .eq('session_id', sessionId)
+    .single();
+
+  // Timed-out sessions are ended by checkSession, which can tell the user why
+  if (!session?.is_active || getSessionExpiryReason(session)) return 'none';
+
+  const { data: user } = await adminSupabase
+    .from('users')
+    .select('token')
+    .eq('id', session.user_id)
+    .single();
+
+  if (!user) return 'none';
+
+  const { data: token } = await adminSupabase
+    .from('tokens')
+    .select('expiry_date, is_used')
+    .eq('token', user.token)
+    .single();
+
+  if (!token || !token.is_used || new Date(token.expiry_date) < new Date()) {
+    return 'expired';
+  }
+
+  return 'active';
+}
+
+async function hasAdminSession(request: NextRequest): Promise<boolean> {
+  const sessionId = await verifySessionCookie(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  if (!sessionId) return false;
+
+  const { data: session } = await adminSupabase
+    .from('admin_sessions')
+    .select('expires_at, is_active, mfa_verified, admins(is_active)')
+    .eq('session_id', sessionId)
+    .single();
+
+  if (!session?.is_active || !session.mfa_verified || new Date(session.expires_at) < new Date()) {
+    return false;
+  }
+
+  const admin: any = Array.isArray(session.admins) ? session.admins[0] : session.admins;
+  return !!admin?.is_active;
+}
+
+function redirectTo(request: NextRequest, pathname: string) {
+  const url = request.nextUrl.clone();
+  url.pathname = pathname;
+  url.search = '';
+  return NextResponse.redirect(url);
+}
+
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  try {
+    if (pathname.startsWith('/admin')) {
+      if (pathname === '/admin/signin') {
+        return NextResponse.next();
+      }
+
+      if (!(await hasAdminSession(request))) {
+        return redirectTo(request, '/admin/signin');
+      }
+      return NextResponse.next();
+    }
+
+    const access = await getUserAccess(request);
+    if (access === 'none') {
+      return redirectTo(request, '/signin');
+    }
+    if (access === 'expired') {
+      return redirectTo(request, '/renew');
+    }
+    return NextResponse.next();
+  } catch (error) {
+    console.error('Middleware session check error:', error);
+    return redirectTo(request, pathname.startsWith('/admin') ? '/admin/signin' : '/signin');
+  }
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/dashboard/:path*']
+};
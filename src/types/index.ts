@@ -2,7 +2,6 @@ export interface User {
   id: string;
   username: string;
   token: string;
-  token_expiry: Date;
   created_at: Date;
 }
 
@@ -13,4 +12,166 @@ export interface Token {
   created_at: Date;
   used_by?: string;
   is_used: boolean;
+  max_devices: number;
+}
+
+export interface UserSession {
+  username: string;
+  isLoggedIn: boolean;
+  tokenExpiry?: string;
+  token?: string | null;
+  isAdmin?: boolean;
+  deviceFingerprint?: string;
+  userId?: string;
+  sessionId?: string;
+  createdAt?: string;
+  // Devices the plan allows to be signed in at the same time
+  maxDevices?: number;
+}
+
+// Recorded in sessions.end_reason when a session stops being active
+export type SessionEndReason =
+  | 'signed_out'
+  | 'replaced'
+  | 'transferred'
+  | 'fingerprint_mismatch'
+  | 'admin_kick'
+  | 'password_reset'
+  | 'password_changed'
+  | 'token_expired'
+  | 'user_deleted'
+  | 'idle_timeout'
+  | 'max_age';
+
+// One row of the user's own session history. Session ids are left out, as
+// they are what the session cookie carries.
+export interface SessionHistoryEntry {
+  deviceFingerprint: string;
+  createdAt: string;
+  lastActive: string | null;
+  endedAt: string | null;
+  // Null while active, and for sessions that ended before reasons were kept
+  endReason: SessionEndReason | null;
+  isActive: boolean;
+  isCurrent: boolean;
+}
+
+// What the account dashboard shows, from /api/auth/account
+export interface AccountDetails {
+  username: string;
+  createdAt: string;
+  // Token duration, e.g. '3month'
+  plan: string | null;
+  maxDevices: number;
+  tokenExpiry: string | null;
+  boundDevice: string | null;
+  hardwareLock: boolean;
+  currentDevice: string;
+  sessionStartedAt: string;
+  lastActiveAt: string | null;
+}
+
+// Short hash per FingerprintJS signal, keyed by signal name
+export type DeviceComponents = Record<string, string>;
+
+// Returned by /api/auth/signup so the form can react to the specific failure
+export type SignUpErrorCode =
+  | 'INVALID_TOKEN_FORMAT'
+  | 'TOKEN_NOT_FOUND'
+  | 'TOKEN_ALREADY_USED'
+  | 'TOKEN_EXPIRED'
+  | 'USERNAME_TAKEN'
+  | 'SIGNUP_FAILED';
+
+export type AdminRole = 'owner' | 'manager' | 'support';
+
+export interface AdminSession {
+  adminId: string;
+  username: string;
+  role: AdminRole;
+  sessionId: string;
+  expiresAt: string;
+  totpEnabled: boolean;
+  // False while the session is waiting for a TOTP code or enrollment
+  mfaVerified: boolean;
+}
+
+// An admin account as listed to owners. Password hashes and TOTP secrets stay
+// on the server.
+export interface AdminAccount {
+  id: string;
+  username: string;
+  role: AdminRole;
+  is_active: boolean;
+  totp_enabled: boolean;
+  created_at: string;
+}
+
+export type AuditAction =
+  | 'token.generate'
+  | 'token.delete'
+  | 'token.expire'
+  | 'user.delete'
+  | 'user.token_revoke'
+  | 'user.token_renew'
+  | 'user.unlock'
+  | 'user.allow_transfer'
+  | 'user.reset_code'
+  | 'device.lock'
+  | 'device.unlock'
+  | 'device.reset'
+  | 'device.rebind'
+  | 'session.force_logout'
+  | 'session.kick_all'
+  | 'admin.create'
+  | 'admin.disable'
+  | 'admin.enable';
+
+export type AuditTargetType = 'user' | 'token' | 'session' | 'admin';
+
+export interface AuditLogEntry {
+  id: string;
+  admin_id: string | null;
+  admin_username: string;
+  action: AuditAction;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  // Human-readable target, e.g. the username or token
+  target_label: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export type AuthEventType =
+  | 'signin_success'
+  | 'signin_failure'
+  | 'device_transfer'
+  | 'session_replaced'
+  | 'fingerprint_mismatch'
+  | 'session_expired'
+  | 'token_expired';
+
+export interface AuthEvent {
+  id: string;
+  event: AuthEventType;
+  user_id: string | null;
+  username: string | null;
+  session_id: string | null;
+  device_fingerprint: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  // Short machine-readable cause, e.g. 'invalid_credentials' or 'idle_timeout'
+  reason: string | null;
+  details: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// A signed-up user whose token runs out soon, for the admin expiring view
+export interface ExpiringUser {
+  user_id: string;
+  username: string;
+  token: string;
+  duration: string;
+  expiry_date: string;
 }
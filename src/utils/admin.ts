@@ -0,0 +1,139 @@
+import { apiRequest } from './api';
+import type { AdminAccount, AdminRole, AdminSession, AuditLogEntry, AuthEvent, ExpiringUser } from '@/types';
+
+// Client-side wrappers around the /api/admin route handlers. The admin
+// session lives in an HttpOnly cookie that is verified on every request.
+function adminRequest<T>(url: string, method: string = 'GET', body?: unknown): Promise<T> {
+  return apiRequest<T>(url, { method, body });
+}
+
+export async function adminSignIn(username: string, password: string): Promise<AdminSession> {
+  const { admin } = await adminRequest<{ admin: AdminSession }>(
+    '/api/admin/signin',
+    'POST',
+    { username, password }
+  );
+  return admin;
+}
+
+export async function adminSignOut() {
+  try {
+    await adminRequest('/api/admin/signout', 'POST');
+  } catch (error) {
+    console.error('Error during admin sign out:', error);
+  }
+}
+
+export async function getAdminSession(): Promise<AdminSession | null> {
+  try {
+    const { admin } = await adminRequest<{ admin: AdminSession }>('/api/admin/session');
+    return admin;
+  } catch (error) {
+    console.error('Admin session check error:', error);
+    return null;
+  }
+}
+
+export function fetchAdminData<TUser, TToken>() {
+  return adminRequest<{ users: TUser[]; tokens: TToken[] }>('/api/admin/data');
+}
+
+export function generateToken(duration: string, maxDevices: number = 1) {
+  return adminRequest('/api/admin/tokens', 'POST', { duration, maxDevices });
+}
+
+export function deleteUnusedToken(tokenId: string) {
+  return adminRequest(`/api/admin/tokens/${tokenId}`, 'DELETE');
+}
+
+export function deleteUser(userId: string) {
+  return adminRequest(`/api/admin/users/${userId}`, 'DELETE');
+}
+
+export function deleteUserToken(userId: string) {
+  return adminRequest(`/api/admin/users/${userId}/token`, 'DELETE');
+}
+
+export function renewToken(userId: string, duration: string) {
+  return adminRequest(`/api/admin/users/${userId}/token`, 'POST', { duration });
+}
+
+export function unlockUser(userId: string) {
+  return adminRequest(`/api/admin/users/${userId}/unlock`, 'POST');
+}
+
+export function allowDeviceTransfer(userId: string) {
+  return adminRequest(`/api/admin/users/${userId}/transfer`, 'POST');
+}
+
+export function createPasswordResetCode(userId: string) {
+  return adminRequest<{ code: string; expiresAt: string }>(`/api/admin/users/${userId}/reset-code`, 'POST');
+}
+
+export function updateDeviceBinding(
+  userId: string,
+  action: 'lock' | 'unlock' | 'reset' | 'rebind',
+  reason: string,
+  fingerprint?: string
+) {
+  return adminRequest(`/api/admin/users/${userId}/device`, 'POST', { action, reason, fingerprint });
+}
+
+export function fetchActiveSessions<TSession>() {
+  return adminRequest<{ sessions: TSession[] }>('/api/admin/sessions');
+}
+
+export function forceLogout(sessionId: string) {
+  return adminRequest(`/api/admin/sessions/${sessionId}`, 'DELETE');
+}
+
+export function kickAllSessions(userId: string) {
+  return adminRequest(`/api/admin/users/${userId}/sessions`, 'DELETE');
+}
+
+export function fetchAuditLog(filters: { action?: string; admin?: string; target?: string }) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return adminRequest<{ entries: AuditLogEntry[] }>(`/api/admin/audit?${params}`);
+}
+
+export function fetchAuthEvents(filters: { username?: string; event?: string }) {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return adminRequest<{ events: AuthEvent[] }>(`/api/admin/auth-events?${params}`);
+}
+
+export function fetchExpiringUsers(days: number) {
+  return adminRequest<{ users: ExpiringUser[] }>(`/api/admin/users/expiring?days=${days}`);
+}
+
+export function fetchAdmins() {
+  return adminRequest<{ admins: AdminAccount[] }>('/api/admin/admins');
+}
+
+export function createAdmin(username: string, password: string, role: AdminRole) {
+  return adminRequest<{ admin: AdminAccount }>('/api/admin/admins', 'POST', { username, password, role });
+}
+
+export function setAdminActive(adminId: string, isActive: boolean) {
+  return adminRequest(`/api/admin/admins/${adminId}`, 'PATCH', { isActive });
+}
+
+export function verifyAdminMfa(code: string) {
+  return adminRequest<{ admin: AdminSession }>('/api/admin/mfa/verify', 'POST', { code });
+}
+
+export function startTotpEnrollment() {
+  return adminRequest<{ secret: string; otpauthUrl: string; qrCode: string }>(
+    '/api/admin/mfa/enroll',
+    'POST'
+  );
+}
+
+export function activateTotp(code: string) {
+  return adminRequest<{ recoveryCodes: string[] }>('/api/admin/mfa/activate', 'POST', { code });
+}
@@ -0,0 +1,30 @@
+export class ApiError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Small fetch helper for the app's JSON route handlers. Non-2xx responses are
+// turned into an ApiError carrying the server's message, status and error code.
+export async function apiRequest<T>(
+  url: string,
+  options: { method?: string; body?: unknown; headers?: Record<string, string> } = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: options.method || (options.body === undefined ? 'GET' : 'POST'),
+    headers: {
+      'Content-Type': 'application/json',
+      ...options.headers
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    credentials: 'same-origin'
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(data.error || 'Request failed', response.status, data.code);
+  }
+
+  return data as T;
+}
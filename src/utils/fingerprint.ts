@@ -1,12 +1,24 @@
-import FingerprintJS from '@fingerprintjs/fingerprintjs';
+import FingerprintJS, { hashComponents, type UnknownComponents } from '@fingerprintjs/fingerprintjs';
+import type { DeviceComponents } from '@/types';
+
+// Besides the visitor ID we keep a short hash of each signal (canvas, fonts,
+// timezone, ...). The server compares these when the visitor ID changes, so a
+// browser update that shifts a couple of signals doesn't look like a new device.
 
 let cachedFingerprint: string | null = null;
+let cachedComponents: DeviceComponents | null = null;
 
-export const getDeviceFingerprint = async (): Promise<string> => {
-  if (cachedFingerprint) {
-    return cachedFingerprint;
-  }
+function summarizeComponents(components: UnknownComponents): DeviceComponents {
+  const summary: DeviceComponents = {};
+  Object.keys(components).forEach(name => {
+    // Signals that failed to collect can't be compared
+    if ('error' in components[name]) return;
+    summary[name] = hashComponents({ [name]: components[name] }).slice(0, 8);
+  });
+  return summary;
+}
 
+async function loadFingerprint() {
   try {
     // Initialize an agent at application startup.
     const fp = await FingerprintJS.load();
@@ -16,9 +28,29 @@ export const getDeviceFingerprint = async (): Promise<string> => {
 
     // This is the visitor identifier:
     cachedFingerprint = result.visitorId;
-    return cachedFingerprint;
+    cachedComponents = summarizeComponents(result.components);
   } catch (error) {
     console.error('Error generating fingerprint:', error);
     throw new Error('Failed to generate device fingerprint');
   }
+}
+
+export const getDeviceFingerprint = async (): Promise<string> => {
+  if (!cachedFingerprint) {
+    await loadFingerprint();
+  }
+  return cachedFingerprint!;
 };
+
+export const getDeviceComponents = async (): Promise<DeviceComponents> => {
+  if (!cachedComponents) {
+    await loadFingerprint();
+  }
+  return cachedComponents!;
+};
+
+// Header form of the components for GET requests and heartbeats
+export const getDeviceHeaders = async (): Promise<Record<string, string>> => ({
+  'X-Device-Fingerprint': await getDeviceFingerprint(),
+  'X-Device-Components': JSON.stringify(await getDeviceComponents())
+});
@@ -0,0 +1,8 @@
+-- Add TOTP two-factor authentication to admin accounts
+ALTER TABLE admins ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+ALTER TABLE admins ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN DEFAULT false;
+ALTER TABLE admins ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT;
+ALTER TABLE admins ADD COLUMN IF NOT EXISTS recovery_codes TEXT[] DEFAULT '{}';
+
+-- Sessions stay pending until the second factor has been verified
+ALTER TABLE admin_sessions ADD COLUMN IF NOT EXISTS mfa_verified BOOLEAN DEFAULT false;
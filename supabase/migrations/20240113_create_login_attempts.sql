@@ -0,0 +1,57 @@
+-- Track failed sign-in attempts per username, device fingerprint and IP
+CREATE TABLE IF NOT EXISTS login_attempts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scope TEXT NOT NULL CHECK (scope IN ('username', 'fingerprint', 'ip', 'admin')),
+    key TEXT NOT NULL,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    last_failed_at TIMESTAMP WITH TIME ZONE,
+    locked_until TIMESTAMP WITH TIME ZONE,
+    UNIQUE(scope, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_attempts_locked_until ON login_attempts(locked_until);
+
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON login_attempts TO service_role;
+
+-- Records one failure and returns the resulting lock expiry (NULL if not locked).
+-- Failures older than p_window_seconds start the count over. Once the count
+-- passes p_threshold the lock doubles with every further failure, capped at
+-- p_max_seconds.
+CREATE OR REPLACE FUNCTION register_login_failure(
+    p_scope TEXT,
+    p_key TEXT,
+    p_threshold INTEGER,
+    p_base_seconds INTEGER,
+    p_max_seconds INTEGER,
+    p_window_seconds INTEGER
+) RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+    v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+    INSERT INTO login_attempts AS a (scope, key, failed_count, last_failed_at)
+    VALUES (p_scope, p_key, 1, now())
+    ON CONFLICT (scope, key) DO UPDATE
+    SET failed_count = CASE
+            WHEN a.last_failed_at < now() - make_interval(secs => p_window_seconds)
+                 AND (a.locked_until IS NULL OR a.locked_until < now())
+            THEN 1
+            ELSE a.failed_count + 1
+        END,
+        last_failed_at = now()
+    RETURNING failed_count INTO v_count;
+
+    IF v_count >= p_threshold THEN
+        v_locked_until := now() + make_interval(
+            secs => LEAST(p_max_seconds, p_base_seconds * power(2, v_count - p_threshold))
+        );
+        UPDATE login_attempts SET locked_until = v_locked_until
+        WHERE scope = p_scope AND key = p_key;
+    END IF;
+
+    RETURN v_locked_until;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Usernames must be unique for redemption to be race-free
+CREATE UNIQUE INDEX IF NOT EXISTS unique_users_username ON users(username);
+
+-- Creates the user and claims the token in one transaction. The token row is
+-- locked first, so concurrent redemptions of the same token queue up and all
+-- but one fail with TOKEN_ALREADY_USED. Errors are raised with a stable code
+-- as the message for the API to map.
+CREATE OR REPLACE FUNCTION redeem_token(
+    p_username TEXT,
+    p_password TEXT,
+    p_token TEXT,
+    p_device_fingerprint TEXT
+) RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_token tokens%ROWTYPE;
+    v_user users%ROWTYPE;
+BEGIN
+    SELECT * INTO v_token FROM tokens WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'TOKEN_NOT_FOUND';
+    END IF;
+
+    IF v_token.is_used THEN
+        RAISE EXCEPTION 'TOKEN_ALREADY_USED';
+    END IF;
+
+    IF v_token.expiry_date < now() THEN
+        RAISE EXCEPTION 'TOKEN_EXPIRED';
+    END IF;
+
+    BEGIN
+        INSERT INTO users (username, password, token, device_fingerprint, created_at, token_expiry)
+        VALUES (p_username, p_password, p_token, p_device_fingerprint, now(), v_token.expiry_date)
+        RETURNING * INTO v_user;
+    EXCEPTION WHEN unique_violation THEN
+        RAISE EXCEPTION 'USERNAME_TAKEN';
+    END;
+
+    UPDATE tokens
+    SET is_used = true,
+        used_by = p_username
+    WHERE id = v_token.id;
+
+    RETURN v_user;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION redeem_token(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_token(TEXT, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,46 @@
+-- Replaces the user's active session with a new one in a single transaction.
+-- Concurrent sign-ins for the same user are serialized on the user row, so
+-- they are applied one after another and the last one wins. A sign-in from a
+-- different device is rejected while another session is still active, which
+-- keeps the kick-lock guarantee even when two browsers race.
+CREATE OR REPLACE FUNCTION rotate_session(
+    p_user_id UUID,
+    p_session_id TEXT,
+    p_device_fingerprint TEXT
+) RETURNS sessions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_session sessions%ROWTYPE;
+BEGIN
+    PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM sessions
+        WHERE user_id = p_user_id
+          AND is_active = true
+          AND device_fingerprint IS DISTINCT FROM p_device_fingerprint
+    ) THEN
+        RAISE EXCEPTION 'ACTIVE_ON_OTHER_DEVICE';
+    END IF;
+
+    UPDATE sessions
+    SET is_active = false
+    WHERE user_id = p_user_id
+      AND is_active = true;
+
+    -- unique_active_session_per_user rejects this if anything slipped past the lock
+    INSERT INTO sessions (user_id, session_id, device_fingerprint, is_active, created_at, last_active)
+    VALUES (p_user_id, p_session_id, p_device_fingerprint, true, now(), now())
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION rotate_session(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rotate_session(UUID, TEXT, TEXT) TO service_role;
@@ -0,0 +1,88 @@
+-- Record when and why a session stopped being active
+ALTER TABLE sessions
+    ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS end_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_sessions_last_active ON sessions(last_active) WHERE is_active = true;
+
+-- Deactivates sessions that have been idle or alive for too long. Limited to
+-- one user when p_user_id is given. Returns the number of sessions ended.
+CREATE OR REPLACE FUNCTION expire_stale_sessions(
+    p_idle_seconds INTEGER,
+    p_max_age_seconds INTEGER,
+    p_user_id UUID DEFAULT NULL
+) RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = now(),
+        end_reason = CASE
+            WHEN created_at < now() - make_interval(secs => p_max_age_seconds) THEN 'max_age'
+            ELSE 'idle_timeout'
+        END
+    WHERE is_active = true
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+      AND (
+          last_active < now() - make_interval(secs => p_idle_seconds)
+          OR created_at < now() - make_interval(secs => p_max_age_seconds)
+      );
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$;
+
+-- Stale sessions no longer block a sign-in from another device
+DROP FUNCTION IF EXISTS rotate_session(UUID, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION rotate_session(
+    p_user_id UUID,
+    p_session_id TEXT,
+    p_device_fingerprint TEXT,
+    p_idle_seconds INTEGER,
+    p_max_age_seconds INTEGER
+) RETURNS sessions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_session sessions%ROWTYPE;
+BEGIN
+    PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND';
+    END IF;
+
+    PERFORM expire_stale_sessions(p_idle_seconds, p_max_age_seconds, p_user_id);
+
+    IF EXISTS (
+        SELECT 1 FROM sessions
+        WHERE user_id = p_user_id
+          AND is_active = true
+          AND device_fingerprint IS DISTINCT FROM p_device_fingerprint
+    ) THEN
+        RAISE EXCEPTION 'ACTIVE_ON_OTHER_DEVICE';
+    END IF;
+
+    UPDATE sessions
+    SET is_active = false
+    WHERE user_id = p_user_id
+      AND is_active = true;
+
+    -- unique_active_session_per_user rejects this if anything slipped past the lock
+    INSERT INTO sessions (user_id, session_id, device_fingerprint, is_active, created_at, last_active)
+    VALUES (p_user_id, p_session_id, p_device_fingerprint, true, now(), now())
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_stale_sessions(INTEGER, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_stale_sessions(INTEGER, INTEGER, UUID) TO service_role;
+REVOKE ALL ON FUNCTION rotate_session(UUID, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rotate_session(UUID, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
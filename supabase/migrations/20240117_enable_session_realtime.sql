@@ -0,0 +1,28 @@
+-- SessionProvider relies on realtime to learn about revoked sessions, so the
+-- browser (anon role) must be able to receive changes to session rows.
+-- Session ids are useless on their own: the cookie also needs the server's
+-- HMAC signature. Writes still go through the service role only.
+DROP POLICY IF EXISTS "Enable realtime read for anon" ON sessions;
+CREATE POLICY "Enable realtime read for anon"
+    ON sessions FOR SELECT
+    TO anon
+    USING (true);
+
+GRANT SELECT ON sessions TO anon;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'sessions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE sessions;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'users'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE users;
+    END IF;
+END $$;
@@ -0,0 +1,80 @@
+-- History of self-service device transfers, used to enforce the cooldown
+CREATE TABLE IF NOT EXISTS device_transfers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    from_fingerprint TEXT,
+    to_fingerprint TEXT NOT NULL,
+    used_override BOOLEAN DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_transfers_user_id ON device_transfers(user_id, created_at);
+
+ALTER TABLE device_transfers ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON device_transfers TO service_role;
+
+-- Set by an admin to let the next transfer through regardless of the limit
+ALTER TABLE users ADD COLUMN IF NOT EXISTS transfer_override BOOLEAN DEFAULT false;
+
+-- Moves the user to a new device in one transaction: ends the active
+-- session, rebinds users.device_fingerprint and starts a new session.
+-- Raises TRANSFER_LIMIT_REACHED once p_max_transfers have been used within
+-- the window, unless an admin override is pending.
+CREATE OR REPLACE FUNCTION transfer_session(
+    p_user_id UUID,
+    p_session_id TEXT,
+    p_device_fingerprint TEXT,
+    p_max_transfers INTEGER,
+    p_window_seconds INTEGER,
+    p_idle_seconds INTEGER,
+    p_max_age_seconds INTEGER
+) RETURNS sessions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_user users%ROWTYPE;
+    v_recent INTEGER;
+    v_session sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_user FROM users WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND';
+    END IF;
+
+    PERFORM expire_stale_sessions(p_idle_seconds, p_max_age_seconds, p_user_id);
+
+    SELECT count(*) INTO v_recent
+    FROM device_transfers
+    WHERE user_id = p_user_id
+      AND created_at > now() - make_interval(secs => p_window_seconds);
+
+    IF v_recent >= p_max_transfers AND NOT coalesce(v_user.transfer_override, false) THEN
+        RAISE EXCEPTION 'TRANSFER_LIMIT_REACHED';
+    END IF;
+
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = now(),
+        end_reason = 'transferred'
+    WHERE user_id = p_user_id
+      AND is_active = true;
+
+    INSERT INTO device_transfers (user_id, from_fingerprint, to_fingerprint, used_override)
+    VALUES (p_user_id, v_user.device_fingerprint, p_device_fingerprint, v_recent >= p_max_transfers);
+
+    UPDATE users
+    SET device_fingerprint = p_device_fingerprint,
+        transfer_override = false
+    WHERE id = p_user_id;
+
+    INSERT INTO sessions (user_id, session_id, device_fingerprint, is_active, created_at, last_active)
+    VALUES (p_user_id, p_session_id, p_device_fingerprint, true, now(), now())
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transfer_session(UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transfer_session(UUID, TEXT, TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO service_role;
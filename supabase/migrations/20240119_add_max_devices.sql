@@ -0,0 +1,152 @@
+-- How many devices may be signed in at once with this token's plan
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS max_devices INTEGER NOT NULL DEFAULT 1;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tokens_max_devices_check') THEN
+        ALTER TABLE tokens ADD CONSTRAINT tokens_max_devices_check CHECK (max_devices >= 1);
+    END IF;
+END $$;
+
+-- One active session per device instead of one per user. Concurrent
+-- sign-ins are still serialized on the user row by the functions below.
+DROP INDEX IF EXISTS unique_active_session_per_user;
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_session_per_device
+    ON sessions (user_id, device_fingerprint) WHERE is_active = true;
+
+-- Starts a session within the user's device limit. Callers must hold the
+-- lock on the user row. A session on the same device is replaced. When all
+-- device slots are taken the oldest sessions are ended with p_evict_reason,
+-- or ACTIVE_ON_OTHER_DEVICE is raised if p_evict_reason is NULL.
+CREATE OR REPLACE FUNCTION open_session(
+    p_user_id UUID,
+    p_session_id TEXT,
+    p_device_fingerprint TEXT,
+    p_evict_reason TEXT
+) RETURNS sessions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_max_devices INTEGER;
+    v_active INTEGER;
+    v_session sessions%ROWTYPE;
+BEGIN
+    SELECT coalesce(t.max_devices, 1) INTO v_max_devices
+    FROM users u
+    LEFT JOIN tokens t ON t.token = u.token
+    WHERE u.id = p_user_id;
+
+    v_max_devices := coalesce(v_max_devices, 1);
+
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = now(),
+        end_reason = 'replaced'
+    WHERE user_id = p_user_id
+      AND is_active = true
+      AND device_fingerprint IS NOT DISTINCT FROM p_device_fingerprint;
+
+    SELECT count(*) INTO v_active
+    FROM sessions
+    WHERE user_id = p_user_id
+      AND is_active = true;
+
+    IF v_active >= v_max_devices THEN
+        IF p_evict_reason IS NULL THEN
+            RAISE EXCEPTION 'ACTIVE_ON_OTHER_DEVICE';
+        END IF;
+
+        UPDATE sessions
+        SET is_active = false,
+            ended_at = now(),
+            end_reason = p_evict_reason
+        WHERE id IN (
+            SELECT id FROM sessions
+            WHERE user_id = p_user_id
+              AND is_active = true
+            ORDER BY created_at ASC
+            LIMIT v_active - v_max_devices + 1
+        );
+    END IF;
+
+    INSERT INTO sessions (user_id, session_id, device_fingerprint, is_active, created_at, last_active)
+    VALUES (p_user_id, p_session_id, p_device_fingerprint, true, now(), now())
+    RETURNING * INTO v_session;
+
+    RETURN v_session;
+END;
+$$;
+
+-- Sign-in never pushes another device out; that takes a device transfer
+CREATE OR REPLACE FUNCTION rotate_session(
+    p_user_id UUID,
+    p_session_id TEXT,
+    p_device_fingerprint TEXT,
+    p_idle_seconds INTEGER,
+    p_max_age_seconds INTEGER
+) RETURNS sessions
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND';
+    END IF;
+
+    PERFORM expire_stale_sessions(p_idle_seconds, p_max_age_seconds, p_user_id);
+
+    RETURN open_session(p_user_id, p_session_id, p_device_fingerprint, NULL);
+END;
+$$;
+
+-- A transfer only ends the oldest session when every device slot is in use
+CREATE OR REPLACE FUNCTION transfer_session(
+    p_user_id UUID,
+    p_session_id TEXT,
+    p_device_fingerprint TEXT,
+    p_max_transfers INTEGER,
+    p_window_seconds INTEGER,
+    p_idle_seconds INTEGER,
+    p_max_age_seconds INTEGER
+) RETURNS sessions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_user users%ROWTYPE;
+    v_recent INTEGER;
+    v_session sessions%ROWTYPE;
+BEGIN
+    SELECT * INTO v_user FROM users WHERE id = p_user_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'USER_NOT_FOUND';
+    END IF;
+
+    PERFORM expire_stale_sessions(p_idle_seconds, p_max_age_seconds, p_user_id);
+
+    SELECT count(*) INTO v_recent
+    FROM device_transfers
+    WHERE user_id = p_user_id
+      AND created_at > now() - make_interval(secs => p_window_seconds);
+
+    IF v_recent >= p_max_transfers AND NOT coalesce(v_user.transfer_override, false) THEN
+        RAISE EXCEPTION 'TRANSFER_LIMIT_REACHED';
+    END IF;
+
+    v_session := open_session(p_user_id, p_session_id, p_device_fingerprint, 'transferred');
+
+    INSERT INTO device_transfers (user_id, from_fingerprint, to_fingerprint, used_override)
+    VALUES (p_user_id, v_user.device_fingerprint, p_device_fingerprint, v_recent >= p_max_transfers);
+
+    UPDATE users
+    SET device_fingerprint = p_device_fingerprint,
+        transfer_override = false
+    WHERE id = p_user_id;
+
+    RETURN v_session;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION open_session(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION open_session(UUID, TEXT, TEXT, TEXT) TO service_role;
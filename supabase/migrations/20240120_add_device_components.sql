@@ -0,0 +1,21 @@
+-- Per-signal hashes from FingerprintJS, compared when the visitor ID drifts
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS device_components JSONB;
+
+-- Fingerprint comparisons that landed close to the match threshold, kept for
+-- tuning FINGERPRINT_MATCH_THRESHOLD
+CREATE TABLE IF NOT EXISTS fingerprint_near_misses (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    session_id TEXT NOT NULL,
+    stored_fingerprint TEXT,
+    presented_fingerprint TEXT,
+    score NUMERIC(4, 3) NOT NULL,
+    accepted BOOLEAN NOT NULL,
+    changed_components TEXT[] DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_fingerprint_near_misses_created_at ON fingerprint_near_misses(created_at DESC);
+
+ALTER TABLE fingerprint_near_misses ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON fingerprint_near_misses TO service_role;
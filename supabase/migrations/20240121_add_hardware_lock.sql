@@ -0,0 +1,26 @@
+-- Opt-in hardware lock: when set, the account may only sign in from the
+-- device recorded in device_fingerprint
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS hardware_lock BOOLEAN DEFAULT false,
+    ADD COLUMN IF NOT EXISTS device_components JSONB;
+
+-- Admin changes to a user's device binding and why they were made
+CREATE TABLE IF NOT EXISTS device_binding_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    admin_id UUID REFERENCES admins(id) ON DELETE SET NULL,
+    admin_username TEXT NOT NULL,
+    action TEXT NOT NULL CHECK (action IN ('lock', 'unlock', 'reset', 'rebind')),
+    old_fingerprint TEXT,
+    new_fingerprint TEXT,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_binding_changes_user_id ON device_binding_changes(user_id, created_at DESC);
+
+ALTER TABLE device_binding_changes ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON device_binding_changes TO service_role;
+
+-- Sign-in checks against the bound device are logged without a session
+ALTER TABLE fingerprint_near_misses ALTER COLUMN session_id DROP NOT NULL;
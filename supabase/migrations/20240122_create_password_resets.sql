@@ -0,0 +1,73 @@
+-- Single-use password reset codes issued by an admin. Only a hash of the
+-- code is stored; the admin reads the code out once when it is created.
+CREATE TABLE IF NOT EXISTS password_resets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code_hash TEXT NOT NULL,
+    created_by UUID REFERENCES admins(id) ON DELETE SET NULL,
+    created_by_username TEXT NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    used_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_resets_user_id ON password_resets(user_id, created_at DESC);
+
+ALTER TABLE password_resets ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON password_resets TO service_role;
+
+-- Consumes a reset code and sets the new password in one transaction. The
+-- user row is locked so two submissions of the same code can't both win.
+-- Every active session ends, and any other outstanding codes are spent.
+CREATE OR REPLACE FUNCTION reset_password(
+    p_username TEXT,
+    p_code_hash TEXT,
+    p_password TEXT
+) RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_user_id UUID;
+    v_reset password_resets%ROWTYPE;
+BEGIN
+    SELECT id INTO v_user_id FROM users WHERE username = p_username FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'RESET_CODE_INVALID';
+    END IF;
+
+    SELECT * INTO v_reset
+    FROM password_resets
+    WHERE user_id = v_user_id
+      AND code_hash = p_code_hash
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF NOT FOUND OR v_reset.used_at IS NOT NULL THEN
+        RAISE EXCEPTION 'RESET_CODE_INVALID';
+    END IF;
+
+    IF v_reset.expires_at < now() THEN
+        RAISE EXCEPTION 'RESET_CODE_EXPIRED';
+    END IF;
+
+    UPDATE users SET password = p_password WHERE id = v_user_id;
+
+    UPDATE password_resets
+    SET used_at = now()
+    WHERE user_id = v_user_id
+      AND used_at IS NULL;
+
+    UPDATE sessions
+    SET is_active = false,
+        ended_at = now(),
+        end_reason = 'password_reset'
+    WHERE user_id = v_user_id
+      AND is_active = true;
+
+    RETURN v_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reset_password(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reset_password(TEXT, TEXT, TEXT) TO service_role;
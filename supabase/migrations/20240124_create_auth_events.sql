@@ -0,0 +1,24 @@
+-- Structured record of sign-in outcomes and session problems, for admins
+-- investigating why a user can't get in. user_id is kept when the user is
+-- deleted so the trail survives; username covers failed sign-ins for
+-- accounts that don't exist.
+CREATE TABLE IF NOT EXISTS auth_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event TEXT NOT NULL,
+    user_id UUID,
+    username TEXT,
+    session_id UUID,
+    device_fingerprint TEXT,
+    ip_address TEXT,
+    user_agent TEXT,
+    reason TEXT,
+    details JSONB,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_events_username ON auth_events(lower(username), created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_events_user_id ON auth_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_auth_events_created_at ON auth_events(created_at DESC);
+
+ALTER TABLE auth_events ENABLE ROW LEVEL SECURITY;
+GRANT ALL ON auth_events TO service_role;
@@ -0,0 +1,110 @@
+-- tokens.expiry_date is the only expiry field. users.token_expiry was a copy
+-- taken at sign-up that renewals never updated.
+CREATE OR REPLACE FUNCTION redeem_token(
+    p_username TEXT,
+    p_password TEXT,
+    p_token TEXT,
+    p_device_fingerprint TEXT
+) RETURNS users
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_token tokens%ROWTYPE;
+    v_user users%ROWTYPE;
+BEGIN
+    SELECT * INTO v_token FROM tokens WHERE token = p_token FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'TOKEN_NOT_FOUND';
+    END IF;
+
+    IF v_token.is_used THEN
+        RAISE EXCEPTION 'TOKEN_ALREADY_USED';
+    END IF;
+
+    IF v_token.expiry_date < now() THEN
+        RAISE EXCEPTION 'TOKEN_EXPIRED';
+    END IF;
+
+    BEGIN
+        INSERT INTO users (username, password, token, device_fingerprint, created_at)
+        VALUES (p_username, p_password, p_token, p_device_fingerprint, now())
+        RETURNING * INTO v_user;
+    EXCEPTION WHEN unique_violation THEN
+        RAISE EXCEPTION 'USERNAME_TAKEN';
+    END;
+
+    UPDATE tokens
+    SET is_used = true,
+        used_by = p_username
+    WHERE id = v_token.id;
+
+    RETURN v_user;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION redeem_token(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION redeem_token(TEXT, TEXT, TEXT, TEXT) TO service_role;
+
+ALTER TABLE users DROP COLUMN IF EXISTS token_expiry;
+
+-- Set once the expiry job has processed the token
+ALTER TABLE tokens ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tokens_pending_expiry ON tokens(expiry_date) WHERE expired_at IS NULL;
+
+-- Run on a schedule. Marks every token past its expiry_date as expired, ends
+-- the active sessions of the user holding it and writes an audit_log entry
+-- per token. The token stays linked to the user so that the user is sent to
+-- the renewal page and an admin can renew it. SKIP LOCKED lets overlapping
+-- runs share the work instead of blocking.
+CREATE OR REPLACE FUNCTION expire_tokens() RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    v_token RECORD;
+    v_sessions_ended INTEGER;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_token IN
+        SELECT t.id, t.token, t.expiry_date, u.id AS user_id, u.username
+        FROM tokens t
+        LEFT JOIN users u ON u.token = t.token
+        WHERE t.expired_at IS NULL
+          AND t.expiry_date < now()
+        FOR UPDATE OF t SKIP LOCKED
+    LOOP
+        UPDATE tokens SET expired_at = now() WHERE id = v_token.id;
+
+        v_sessions_ended := 0;
+        IF v_token.user_id IS NOT NULL THEN
+            UPDATE sessions
+            SET is_active = false,
+                ended_at = now(),
+                end_reason = 'token_expired'
+            WHERE user_id = v_token.user_id
+              AND is_active = true;
+
+            GET DIAGNOSTICS v_sessions_ended = ROW_COUNT;
+        END IF;
+
+        INSERT INTO audit_log (admin_username, action, target_type, target_id, target_label, before, after)
+        VALUES (
+            'system',
+            'token.expire',
+            CASE WHEN v_token.user_id IS NULL THEN 'token' ELSE 'user' END,
+            COALESCE(v_token.user_id::TEXT, v_token.id::TEXT),
+            COALESCE(v_token.username, v_token.token),
+            jsonb_build_object('token', v_token.token, 'expiry_date', v_token.expiry_date),
+            jsonb_build_object('expired_at', now(), 'sessions_ended', v_sessions_ended)
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_tokens() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_tokens() TO service_role;
@@ -0,0 +1,98 @@
+-- Realtime used to stream session and user rows to the browser, which meant
+-- anyone with the anon key could read every session id and device. Those
+-- tables are private again and open tabs are told about changes with
+-- Broadcast messages sent from these triggers instead:
+--   session:<session_id>  why that session ended, or that its user changed
+--   admin:users, admin:sessions  an empty "changed" signal; the admin panel
+--                                reloads through its authenticated API
+DROP POLICY IF EXISTS "Enable realtime read for anon" ON sessions;
+REVOKE ALL ON sessions FROM anon, authenticated;
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'sessions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime DROP TABLE sessions;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'users'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime DROP TABLE users;
+    END IF;
+END $$;
+
+-- Heartbeats only touch last_active, so they don't fire this
+CREATE OR REPLACE FUNCTION broadcast_session_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND OLD.is_active AND NOT NEW.is_active THEN
+        PERFORM realtime.send(
+            jsonb_build_object('end_reason', NEW.end_reason),
+            'session_ended',
+            'session:' || NEW.session_id,
+            false
+        );
+    ELSIF TG_OP = 'DELETE' AND OLD.is_active THEN
+        -- sessions has no foreign key to users. deleteUser ends the rows
+        -- first (end_reason 'user_deleted'), so this only catches active
+        -- rows removed some other way.
+        PERFORM realtime.send(
+            jsonb_build_object('end_reason', 'deleted'),
+            'session_ended',
+            'session:' || OLD.session_id,
+            false
+        );
+    END IF;
+
+    PERFORM realtime.send('{}'::jsonb, 'changed', 'admin:sessions', false);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sessions_broadcast ON sessions;
+CREATE TRIGGER sessions_broadcast
+    AFTER INSERT OR UPDATE OF is_active OR DELETE ON sessions
+    FOR EACH ROW EXECUTE FUNCTION broadcast_session_change();
+
+CREATE OR REPLACE FUNCTION broadcast_user_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_session_id TEXT;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        FOR v_session_id IN
+            SELECT session_id FROM sessions WHERE user_id = NEW.id AND is_active = true
+        LOOP
+            PERFORM realtime.send(
+                '{}'::jsonb,
+                CASE WHEN OLD.token IS DISTINCT FROM NEW.token THEN 'token_changed' ELSE 'user_changed' END,
+                'session:' || v_session_id,
+                false
+            );
+        END LOOP;
+    END IF;
+
+    PERFORM realtime.send('{}'::jsonb, 'changed', 'admin:users', false);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS users_broadcast ON users;
+CREATE TRIGGER users_broadcast
+    AFTER INSERT OR UPDATE OR DELETE ON users
+    FOR EACH ROW EXECUTE FUNCTION broadcast_user_change();
+
+REVOKE ALL ON FUNCTION broadcast_session_change() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION broadcast_user_change() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,40 @@
+-- users holds password hashes and tokens holds every license key, so only the
+-- service role (the /api route handlers) may read them. The browser used to
+-- query both with the anon key. The admin panel learns about token changes
+-- from an empty Broadcast signal, like admin:users and admin:sessions.
+ALTER TABLE users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tokens ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON users FROM anon, authenticated;
+REVOKE ALL ON tokens FROM anon, authenticated;
+GRANT ALL ON users TO service_role;
+GRANT ALL ON tokens TO service_role;
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'tokens'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime DROP TABLE tokens;
+    END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION broadcast_token_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM realtime.send('{}'::jsonb, 'changed', 'admin:tokens', false);
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS tokens_broadcast ON tokens;
+CREATE TRIGGER tokens_broadcast
+    AFTER INSERT OR UPDATE OR DELETE ON tokens
+    FOR EACH ROW EXECUTE FUNCTION broadcast_token_change();
+
+REVOKE ALL ON FUNCTION broadcast_token_change() FROM PUBLIC, anon, authenticated;